@@ -0,0 +1,134 @@
+export interface ContentBudget {
+  maxTokens: number;
+  maxBytes: number;
+  estimateTokens: (text: string) => number;
+}
+
+export interface ContentBlock {
+  title: string;
+  markdown: string;
+}
+
+/**
+ * Rough token estimate of ~4 characters per token, close enough for budgeting
+ */
+export function defaultTokenEstimator(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Check whether text stays within both the token and the byte budget
+ */
+export function fitsBudget(text: string, budget: ContentBudget): boolean {
+  if (Number.isFinite(budget.maxBytes) && Buffer.byteLength(text, "utf-8") > budget.maxBytes) {
+    return false;
+  }
+  return !Number.isFinite(budget.maxTokens) || budget.estimateTokens(text) <= budget.maxTokens;
+}
+
+/**
+ * Check whether text produced in parts stays within the budget, without joining the parts.
+ * Token estimates are added up part by part; stops at the first part that goes over.
+ */
+export function partsFitBudget(parts: Iterable<string>, budget: ContentBudget): boolean {
+  let bytes = 0;
+  let tokens = 0;
+  for (const part of parts) {
+    bytes += Buffer.byteLength(part, "utf-8");
+    tokens += budget.estimateTokens(part);
+    if (bytes > budget.maxBytes || tokens > budget.maxTokens) return false;
+  }
+  return true;
+}
+
+/**
+ * Budget left for the blocks of a chunk once text repeated in every chunk, such as its header, is added
+ */
+export function reserveBudget(budget: ContentBudget, reservedText: string): ContentBudget {
+  return {
+    ...budget,
+    maxTokens: budget.maxTokens - budget.estimateTokens(reservedText),
+    maxBytes: budget.maxBytes - Buffer.byteLength(reservedText, "utf-8")
+  };
+}
+
+/**
+ * Pack blocks greedily into chunks that fit the budget, never splitting inside a block.
+ * Blocks that are too large on their own are first split on heading boundaries;
+ * a single section that still exceeds the budget gets a chunk of its own.
+ */
+export function packBlocksIntoChunks(
+  blocks: ContentBlock[],
+  budget: ContentBudget,
+  separator: string
+): ContentBlock[][] {
+  const chunks: ContentBlock[][] = [];
+  let currentChunk: ContentBlock[] = [];
+
+  const joinChunk = (chunkBlocks: ContentBlock[]) => chunkBlocks.map((block) => block.markdown).join(separator);
+
+  for (const block of blocks.flatMap((block) => splitOversizeBlock(block, budget))) {
+    if (currentChunk.length > 0 && !fitsBudget(joinChunk([...currentChunk, block]), budget)) {
+      chunks.push(currentChunk);
+      currentChunk = [];
+    }
+    currentChunk.push(block);
+  }
+
+  if (currentChunk.length > 0) {
+    chunks.push(currentChunk);
+  }
+
+  return chunks;
+}
+
+function splitOversizeBlock(block: ContentBlock, budget: ContentBudget): ContentBlock[] {
+  if (fitsBudget(block.markdown, budget)) return [block];
+
+  const sections = splitMarkdownByHeadings(block.markdown);
+  if (sections.length <= 1) return [block];
+
+  const parts: ContentBlock[] = [];
+  let currentPart = "";
+
+  for (const section of sections) {
+    const candidate = currentPart ? `${currentPart}\n\n${section}` : section;
+    if (currentPart && !fitsBudget(candidate, budget)) {
+      parts.push({ title: block.title, markdown: currentPart });
+      // Repeat the page title so continued parts keep their context
+      currentPart = `# ${block.title} (continued)\n\n${section}`;
+    } else {
+      currentPart = candidate;
+    }
+  }
+
+  parts.push({ title: block.title, markdown: currentPart });
+  return parts;
+}
+
+/**
+ * Split Markdown before every heading that is not inside a fenced code block
+ */
+export function splitMarkdownByHeadings(markdown: string): string[] {
+  const sections: string[] = [];
+  let currentLines: string[] = [];
+  let insideFence = false;
+
+  for (const line of markdown.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      insideFence = !insideFence;
+    }
+
+    if (!insideFence && /^#{1,6}\s/.test(line) && currentLines.some((existing) => existing.trim())) {
+      sections.push(currentLines.join("\n").trim());
+      currentLines = [];
+    }
+    currentLines.push(line);
+  }
+
+  if (currentLines.some((line) => line.trim())) {
+    sections.push(currentLines.join("\n").trim());
+  }
+
+  return sections;
+}
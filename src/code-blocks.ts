@@ -0,0 +1,175 @@
+import type { Element, ElementContent } from "hast";
+import { matches, select, selectAll } from "hast-util-select";
+
+/**
+ * Wrappers that highlighters put around a code block, e.g. for a title bar and copy button
+ */
+const codeFrameSelectors = [
+  ".expressive-code", // Expressive Code, also used by Starlight
+  "figure.frame",
+  "figure[data-rehype-pretty-code-figure]"
+];
+
+/**
+ * Highlighter UI inside code blocks that is not part of the code
+ */
+const codeChromeSelectors = [
+  "button",
+  ".copy", // Expressive Code copy button
+  ".gutter", // Expressive Code line numbers
+  ".line-numbers-rows", // Prism line numbers
+  ".line-number",
+  ".sr-only"
+];
+
+const codeTitleSelectors = ["figcaption .title", "[data-rehype-pretty-code-title]", "figcaption"];
+
+/**
+ * Separates the fence language from its meta in the language class, split again by restoreCodeMeta.
+ * rehype-remark only reads the language from the class, so the meta has to travel inside it.
+ */
+const codeMetaSeparator = "\uE001";
+
+/**
+ * Rebuild a highlighted code block (Shiki, Prism, Expressive Code, rehype-pretty-code) as a plain
+ * pre/code pair with the source text, language, title and diff markers.
+ * Returns undefined for elements that are not code blocks or frames around one.
+ */
+export function normalizeCodeBlock(element: Element): Element | undefined {
+  const isFrame = codeFrameSelectors.some((selector) => matches(selector, element));
+  if (!isFrame && element.tagName !== "pre") return undefined;
+
+  const pre = element.tagName === "pre" ? element : select("pre", element);
+  if (!pre) return undefined;
+
+  const code = select("code", pre) || pre;
+  const title = isFrame ? extractCodeTitle(element) : getStringProperty(pre, "dataTitle");
+  let language = detectCodeLanguage(pre, code);
+
+  const lines = extractCodeLines(code);
+  const meta: string[] = [];
+  const hasDiffMarkers = lines.some((line) => line.marker !== " ");
+  if (hasDiffMarkers || language.startsWith("diff-")) {
+    // Keep the highlighted language next to the diff, as Expressive Code writes it
+    const diffLanguage = language.replace(/^diff-?/, "");
+    if (diffLanguage) meta.push(`lang="${diffLanguage}"`);
+    language = "diff";
+  }
+  if (title) meta.push(`title="${title.replace(/"/g, '\\"')}"`);
+
+  const source = lines
+    .map((line) => (hasDiffMarkers ? `${line.marker}${line.text}` : line.text))
+    .join("\n");
+
+  const codeBlock = createCodeBlock(source, language, meta.join(" "));
+  // User ignore selectors may target the original wrapper, e.g. `.expressive-code`
+  codeBlock.properties = { ...element.properties };
+  return codeBlock;
+}
+
+/**
+ * Build a pre/code element for a fenced code block
+ */
+export function createCodeBlock(source: string, language: string, meta = ""): Element {
+  const languageClass = language + (meta ? `${codeMetaSeparator}${meta}` : "");
+  return {
+    type: "element",
+    tagName: "pre",
+    properties: {},
+    children: [{
+      type: "element",
+      tagName: "code",
+      properties: languageClass ? { className: [`language-${languageClass}`] } : {},
+      children: [{ type: "text", value: source.replace(/^\n+|\s+$/g, "") }]
+    }]
+  };
+}
+
+/**
+ * Split the meta that createCodeBlock stored in the language back out of mdast code nodes
+ */
+export function restoreCodeMeta(node: any): void {
+  if (node.type === "code" && typeof node.lang === "string" && node.lang.includes(codeMetaSeparator)) {
+    const [lang, meta] = node.lang.split(codeMetaSeparator);
+    node.lang = lang || null;
+    node.meta = meta || null;
+  }
+  for (const child of node.children || []) {
+    restoreCodeMeta(child);
+  }
+}
+
+interface CodeLine {
+  text: string;
+  marker: "+" | "-" | " ";
+}
+
+function extractCodeLines(code: Element): CodeLine[] {
+  // Highlighters that wrap each line: Expressive Code, then Shiki and rehype-pretty-code.
+  // Shiki lines are direct children, since Prism also has "line" tokens.
+  const lineElements = selectAll(".ec-line", code);
+  if (lineElements.length === 0) {
+    lineElements.push(...code.children.filter((child): child is Element =>
+      child.type === "element" && child.tagName === "span" && (matches(".line", child) || matches("[data-line]", child))));
+  }
+
+  if (lineElements.length === 0) {
+    return extractCodeText(code).split("\n").map((text) => ({ text, marker: " " }));
+  }
+
+  return lineElements.map((line) => ({
+    text: extractCodeText(line).replace(/\n$/, ""),
+    marker: getDiffMarker(line)
+  }));
+}
+
+function getDiffMarker(line: Element): CodeLine["marker"] {
+  const classList = getClassList(line);
+  if (classList.includes("ins") || (classList.includes("diff") && classList.includes("add"))) return "+";
+  if (classList.includes("del") || (classList.includes("diff") && classList.includes("remove"))) return "-";
+  return " ";
+}
+
+/**
+ * Source text of an element, leaving out line numbers, copy buttons and similar chrome
+ */
+function extractCodeText(node: Element | ElementContent): string {
+  if (node.type === "text") return node.value;
+  if (node.type !== "element") return "";
+  if (codeChromeSelectors.some((selector) => matches(selector, node))) return "";
+  return node.children.map(extractCodeText).join("");
+}
+
+/**
+ * Language from data-language (Astro's Shiki and Prism, Expressive Code) or a language-* class
+ */
+function detectCodeLanguage(pre: Element, code: Element): string {
+  const dataLanguage = getStringProperty(pre, "dataLanguage") || getStringProperty(code, "dataLanguage");
+  if (dataLanguage) return dataLanguage;
+
+  for (const className of [...getClassList(code), ...getClassList(pre)]) {
+    const languageMatch = className.match(/^lang(?:uage)?-(.+)$/);
+    if (languageMatch) return languageMatch[1];
+  }
+  return "";
+}
+
+function extractCodeTitle(frame: Element): string {
+  for (const selector of codeTitleSelectors) {
+    const titleElement = select(selector, frame);
+    const title = titleElement ? extractCodeText(titleElement).trim() : "";
+    if (title) return title;
+  }
+  return "";
+}
+
+function getStringProperty(element: Element, name: string): string {
+  const value = element.properties[name];
+  return typeof value === "string" ? value : "";
+}
+
+function getClassList(element: Element): string[] {
+  const className = element.properties.className;
+  if (Array.isArray(className)) return className.map(String);
+  return typeof className === "string" ? className.split(/\s+/) : [];
+}
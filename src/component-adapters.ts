@@ -0,0 +1,155 @@
+import type { Element, ElementContent, Root } from "hast";
+import { matches, select, selectAll } from "hast-util-select";
+
+/**
+ * Rewrites the HTML of a UI component into elements that convert to readable Markdown.
+ * Return the nodes to put in place of the element ([] removes it), or undefined to leave it as is.
+ * Components nested in the returned nodes are adapted as well.
+ */
+export interface ComponentAdapter {
+  name: string;
+  selector: string; // CSS selector of the component's root element
+  transform: (element: Element) => ElementContent[] | undefined;
+}
+
+/**
+ * Starlight components, which Astro Docs and most Astro documentation themes render
+ */
+export const starlightComponentAdapters: ComponentAdapter[] = [
+  {
+    // <Tabs>: every panel, each under the label of its tab
+    name: "starlight-tabs",
+    selector: "starlight-tabs",
+    transform: (element) => {
+      const labels = new Map(selectAll('[role="tab"]', element).map((tab) => [String(tab.properties.id), getText(tab)]));
+      return selectAll('[role="tabpanel"]', element).flatMap((panel) => {
+        const label = labels.get(String(panel.properties.ariaLabelledBy ?? ""));
+        const heading = label ? [createElement("p", [createElement("strong", [createText(label)])])] : [];
+        return [...heading, ...panel.children];
+      });
+    }
+  },
+  {
+    // <Aside>: a blockquote starting with the aside title, e.g. "> **Note:** …"
+    name: "starlight-aside",
+    selector: "aside.starlight-aside",
+    transform: (element) => {
+      const title = getText(select(".starlight-aside__title", element)) || String(element.properties.ariaLabel ?? "");
+      const content = select(".starlight-aside__content", element)?.children ?? [];
+      return [createElement("blockquote", prependLabel(content, title))];
+    }
+  },
+  {
+    // <Steps>: a plain ordered list without the numbering styles
+    name: "starlight-steps",
+    selector: ".sl-steps",
+    transform: (element) => {
+      const list = element.tagName === "ol" ? element : select("ol", element);
+      return list ? [createElement("ol", list.children)] : undefined;
+    }
+  },
+  {
+    // <CardGrid>: a list with one entry per card or link card
+    name: "starlight-card-grid",
+    selector: ".card-grid",
+    transform: (element) => {
+      const cards = selectAll("article.card, .sl-link-card", element);
+      return [createElement("ul", cards.map((card) => createElement("li", convertCard(card))))];
+    }
+  },
+  {
+    // <Card> and <LinkCard> outside a grid
+    name: "starlight-card",
+    selector: "article.card, .sl-link-card",
+    transform: (element) => [createElement("div", convertCard(element))]
+  }
+];
+
+/**
+ * Apply adapters depth-first; the first adapter whose selector matches an element wins
+ */
+export function applyComponentAdapters(tree: Root | Element, adapters: ComponentAdapter[]): void {
+  // Adapters passed to workers or the endpoint lose their functions
+  const usableAdapters = adapters.filter((adapter) => typeof adapter.transform === "function");
+  if (usableAdapters.length > 0) {
+    tree.children = adaptNodes(tree.children as ElementContent[], usableAdapters) as Element["children"];
+  }
+}
+
+function adaptNodes(nodes: ElementContent[], adapters: ComponentAdapter[], skippedAdapter?: ComponentAdapter): ElementContent[] {
+  return nodes.flatMap((node) => {
+    if (node.type !== "element") return [node];
+
+    const adapter = adapters.find((candidate) => candidate !== skippedAdapter && matches(candidate.selector, node));
+    const replacement = adapter?.transform(node);
+    if (!replacement) {
+      node.children = adaptNodes(node.children, adapters);
+      return [node];
+    }
+
+    // The new nodes are adapted too, but never again by the adapter that produced them
+    return adaptNodes(replacement, adapters, adapter);
+  });
+}
+
+/**
+ * Title, then body or description, of a Starlight card
+ */
+function convertCard(card: Element): ElementContent[] {
+  const link = select("a[href]", card);
+  const title = getText(select(".title", card)) || getText(link);
+  const label = link
+    ? createElement("a", [createText(title)], { href: link.properties.href })
+    : createElement("strong", [createText(title)]);
+
+  const description = select(".description", card);
+  const body = select(".body", card);
+  const details = description ? [createText(getText(description))] : body ? flattenParagraphs(body.children) : [];
+
+  return details.length > 0 ? [label, createText(": "), ...details] : [label];
+}
+
+/**
+ * Put "**Title:**" at the start of the first paragraph, or in a paragraph of its own
+ */
+function prependLabel(content: ElementContent[], title: string): ElementContent[] {
+  if (!title) return content;
+
+  const label = createElement("strong", [createText(`${title.replace(/:$/, "")}:`)]);
+  const firstNode = content.find((node) => node.type !== "text" || node.value.trim());
+  if (firstNode?.type === "element" && firstNode.tagName === "p") {
+    const paragraph = createElement("p", [label, createText(" "), ...firstNode.children]);
+    return content.map((node) => (node === firstNode ? paragraph : node));
+  }
+  return [createElement("p", [label]), ...content];
+}
+
+/**
+ * Keep the inline content of card bodies, which usually hold a single paragraph
+ */
+function flattenParagraphs(nodes: ElementContent[]): ElementContent[] {
+  const paragraphs = nodes.filter((node): node is Element => node.type === "element" && node.tagName === "p");
+  if (paragraphs.length !== 1) return nodes;
+  return paragraphs[0].children;
+}
+
+/**
+ * Visible text of a component part, without icons and with collapsed whitespace
+ */
+function getText(node: Element | undefined): string {
+  return node ? extractText(node).replace(/\s+/g, " ").trim() : "";
+}
+
+function extractText(node: ElementContent): string {
+  if (node.type === "text") return node.value;
+  if (node.type !== "element" || node.tagName === "svg") return "";
+  return node.children.map(extractText).join("");
+}
+
+function createElement(tagName: string, children: ElementContent[], properties: Element["properties"] = {}): Element {
+  return { type: "element", tagName, properties, children };
+}
+
+function createText(value: string) {
+  return { type: "text" as const, value };
+}
@@ -0,0 +1,67 @@
+import type { APIRoute } from "astro";
+import runtimeJson from "virtual:astro-llms-generate/runtime";
+import { getContentType, renderLlmsFilesFromOrigin } from "./index";
+import { prerenderedRoutesFilename, reviveEndpointRuntime } from "./runtime-config";
+
+export const prerender = false;
+
+const runtime = reviveEndpointRuntime(runtimeJson);
+const cacheMaxAge = 300; // Seconds to reuse rendered files before fetching pages again
+
+// Only warnings reach the server log; reports and per-page details would repeat on every refresh
+const endpointLogger = { info() {}, debug() {}, warn: (message: string) => console.warn(`[astro-llms-generate] ${message}`) };
+
+let cachedFiles: { files: Promise<Map<string, string>>; expiresAt: number } | undefined;
+
+/**
+ * On-demand llms.txt endpoint: renders every page through the running site,
+ * so server-rendered routes are included
+ */
+export const GET: APIRoute = async ({ url }) => {
+  const filename = url.pathname.split("/").pop() || "";
+
+  if (!cachedFiles || cachedFiles.expiresAt < Date.now()) {
+    cachedFiles = {
+      files: loadPathnames(url.origin).then((pathnames) =>
+        renderLlmsFilesFromOrigin(url.origin, pathnames, runtime, runtime.userConfig, endpointLogger)
+      ),
+      expiresAt: Date.now() + cacheMaxAge * 1000
+    };
+  }
+
+  let files: Map<string, string>;
+  try {
+    files = await cachedFiles.files;
+  } catch (error) {
+    cachedFiles = undefined;
+    return new Response(`Failed to generate LLMs files: ${error}`, { status: 500 });
+  }
+
+  const content = files.get(filename);
+  if (content === undefined) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  return new Response(content, {
+    headers: {
+      "Content-Type": getContentType(filename),
+      "Cache-Control": `public, max-age=${cacheMaxAge}`
+    }
+  });
+};
+
+/**
+ * Combine the routes known at bundle time with the prerendered routes listed by the build
+ */
+async function loadPathnames(origin: string): Promise<string[]> {
+  const pathnames = new Set(runtime.pathnames);
+  try {
+    const response = await fetch(new URL(`${runtime.base.replace(/\/+$/, "")}/${prerenderedRoutesFilename}`, origin));
+    if (response.ok) {
+      for (const pathname of await response.json() as string[]) pathnames.add(pathname);
+    }
+  } catch {
+    // The list is optional; routes known at bundle time still render
+  }
+  return [...pathnames];
+}
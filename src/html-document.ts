@@ -0,0 +1,48 @@
+import type { Element, Root, RootContent } from "hast";
+import { select, selectAll } from "hast-util-select";
+import rehypeParse from "rehype-parse";
+import { unified } from "unified";
+
+const htmlDocumentParser = unified().use(rehypeParse);
+
+/**
+ * Parse a full HTML page into a hast tree, once per page.
+ * Everything else, including the Markdown conversion, works on this tree.
+ */
+export function parseHtmlDocument(html: string): Root {
+  return htmlDocumentParser.parse(html);
+}
+
+/**
+ * First element matching a CSS selector, like `document.querySelector`
+ */
+export function selectElement(selector: string, tree: Root | Element): Element | undefined {
+  return select(selector, tree) ?? undefined;
+}
+
+/**
+ * Every element matching a CSS selector, like `document.querySelectorAll`
+ */
+export function selectElements(selector: string, tree: Root | Element): Element[] {
+  return selectAll(selector, tree);
+}
+
+/**
+ * Attribute value by its HTML name, e.g. "data-llms-order" or "http-equiv"
+ */
+export function getAttribute(element: Element | undefined, name: string): string | undefined {
+  if (!element) return undefined;
+  const propertyName = name.replace(/-([a-z])/g, (_match, letter: string) => letter.toUpperCase());
+  const value = element.properties[propertyName] ?? element.properties[name];
+  if (value === undefined || value === null || value === false) return undefined;
+  return Array.isArray(value) ? value.join(" ") : String(value);
+}
+
+/**
+ * Concatenated text of a node and its descendants, like `textContent`
+ */
+export function getTextContent(node: Root | RootContent | undefined): string {
+  if (!node) return "";
+  if (node.type === "text") return node.value;
+  return "children" in node ? node.children.map((child) => getTextContent(child)).join("") : "";
+}
@@ -0,0 +1,141 @@
+import type { AstroConfig } from "astro";
+import type { PageData } from "./index";
+import { normalizePathnameForMatching } from "./page-filter";
+
+export interface LocaleInfo {
+  code: string; // BCP-47 tag used in filenames and headings
+  path: string; // Route prefix
+}
+
+export interface I18nSettings {
+  defaultLocale?: string; // Locale code
+  locales: LocaleInfo[]; // Empty when Astro i18n routing is not configured
+  fallback: Record<string, string>; // Locale code -> fallback locale code
+}
+
+/**
+ * Read locales, default locale and fallbacks from Astro's i18n config.
+ * Without Astro i18n, locales are later taken from each page's lang attribute.
+ */
+export function resolveI18nSettings(
+  astroConfig: Pick<AstroConfig, "i18n">,
+  defaultLocaleOverride?: string
+): I18nSettings {
+  const astroI18n = astroConfig.i18n;
+  const locales: LocaleInfo[] = (astroI18n?.locales || []).map((locale) =>
+    typeof locale === "string"
+      ? { code: normalizeLanguageTag(locale) || locale, path: locale }
+      : { code: normalizeLanguageTag(locale.codes[0]) || locale.codes[0], path: locale.path }
+  );
+
+  const toCode = (localeId: string | undefined): string | undefined => {
+    if (!localeId) return undefined;
+    const matchedLocale = locales.find((locale) =>
+      locale.path.toLowerCase() === localeId.toLowerCase() ||
+      locale.code.toLowerCase() === localeId.toLowerCase()
+    );
+    return matchedLocale?.code || normalizeLanguageTag(localeId);
+  };
+
+  const fallback: Record<string, string> = {};
+  for (const [from, to] of Object.entries(astroI18n?.fallback || {})) {
+    const fromCode = toCode(from);
+    const toLocaleCode = toCode(to as string);
+    if (fromCode && toLocaleCode) fallback[fromCode] = toLocaleCode;
+  }
+
+  return {
+    defaultLocale: toCode(defaultLocaleOverride || astroI18n?.defaultLocale),
+    locales,
+    fallback
+  };
+}
+
+/**
+ * Detect a page's locale: from its route prefix when Astro i18n is configured,
+ * otherwise from its lang attribute, falling back to the default locale
+ */
+export function detectPageLocale(page: PageData, settings: I18nSettings): string | undefined {
+  if (settings.locales.length > 0) {
+    return findPrefixLocale(page.pathname, settings)?.code || settings.defaultLocale;
+  }
+  return normalizeLanguageTag(page.lang) || settings.defaultLocale;
+}
+
+/**
+ * Group pages by locale. Locales with a fallback also get the fallback locale's
+ * pages for routes they do not translate, following the fallback chain.
+ */
+export function groupPagesByLocale(pages: PageData[], settings: I18nSettings): Map<string, PageData[]> {
+  const groups = new Map<string, PageData[]>();
+  for (const locale of settings.locales) {
+    groups.set(locale.code, []);
+  }
+
+  for (const page of pages) {
+    const locale = detectPageLocale(page, settings);
+    if (!locale) continue;
+    if (!groups.has(locale)) groups.set(locale, []);
+    groups.get(locale)!.push(page);
+  }
+
+  for (const [locale, localePages] of groups) {
+    const translatedRoutes = new Set(localePages.map((page) => stripLocalePrefix(page.pathname, settings)));
+    const visitedLocales = new Set([locale]);
+    let fallbackLocale = settings.fallback[locale];
+
+    while (fallbackLocale && !visitedLocales.has(fallbackLocale)) {
+      visitedLocales.add(fallbackLocale);
+      for (const page of groups.get(fallbackLocale) || []) {
+        const route = stripLocalePrefix(page.pathname, settings);
+        if (translatedRoutes.has(route)) continue;
+        translatedRoutes.add(route);
+        localePages.push(page);
+      }
+      fallbackLocale = settings.fallback[fallbackLocale];
+    }
+  }
+
+  for (const [locale, localePages] of groups) {
+    if (localePages.length === 0) groups.delete(locale);
+  }
+
+  return groups;
+}
+
+/**
+ * Route of a page without its locale prefix, used to match translations
+ */
+export function stripLocalePrefix(pathname: string, settings: I18nSettings): string {
+  const normalized = normalizePathnameForMatching(pathname);
+  const locale = findPrefixLocale(pathname, settings);
+  return locale ? normalized.slice(locale.path.length).replace(/^\/+/, "") : normalized;
+}
+
+/**
+ * Canonicalize a language tag, keeping region and script (pt-br -> pt-BR, zh-hant -> zh-Hant)
+ */
+export function normalizeLanguageTag(tag: string | undefined | null): string | undefined {
+  if (!tag?.trim()) return undefined;
+  try {
+    return Intl.getCanonicalLocales(tag.trim())[0];
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Human-readable name of a locale in its own language, e.g. "português (Brasil)"
+ */
+export function getLocaleDisplayName(code: string): string {
+  try {
+    return new Intl.DisplayNames([code], { type: "language" }).of(code) || code;
+  } catch {
+    return code;
+  }
+}
+
+function findPrefixLocale(pathname: string, settings: I18nSettings): LocaleInfo | undefined {
+  const firstSegment = normalizePathnameForMatching(pathname).split("/")[0].toLowerCase();
+  return settings.locales.find((locale) => locale.path.toLowerCase() === firstSegment);
+}
@@ -1,9 +1,53 @@
-import type { AstroConfig, AstroIntegration } from "astro";
+import type { AstroConfig, AstroIntegration, AstroIntegrationLogger, IntegrationResolvedRoute } from "astro";
+import type { AddressInfo } from "net";
+import { createWriteStream } from "fs";
 import fs from "fs/promises";
+import os from "os";
 import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
 import { fileURLToPath } from "url";
 import { JSDOM } from "jsdom";
-import { SimpleMarkdown } from "./simple-markdown";
+import type { Root } from "hast";
+import { remove } from "unist-util-remove";
+import { SimpleMarkdown, type ImagePolicy, type SimpleMarkdownOptions, type TableMode } from "./simple-markdown";
+import { getAttribute, getTextContent, parseHtmlDocument, selectElement, selectElements } from "./html-document";
+import {
+  filterPagesByPatterns,
+  formatPageFilterReport,
+  matchesPatterns,
+  normalizePathnameForMatching,
+  type PagePattern
+} from "./page-filter";
+import { defaultTokenEstimator, packBlocksIntoChunks, partsFitBudget, reserveBudget, type ContentBudget } from "./chunking";
+import { extractHeadingOutline, type PageHeading } from "./outline";
+import { getLocaleDisplayName, groupPagesByLocale, normalizeLanguageTag, resolveI18nSettings } from "./i18n";
+import {
+  findFunctionOptions,
+  prerenderedRoutesFilename,
+  runtimeModuleId,
+  serializeEndpointRuntime
+} from "./runtime-config";
+import { formatPageCacheStats, loadPageCache, type PageCache } from "./page-cache";
+import { formatValidationReport, validateLlmsOutput, type PageFailure, type StrictOptions } from "./validation";
+import { createJsonLinesManifestParts, createJsonManifestParts, createManifestPage, manifestVersion } from "./manifest";
+import { createPageWorkerPool, type PageWorkerPool } from "./worker-pool";
+import { applyTrailingSlash, createHtmlFileIndex, getBaseUrl, getHtmlFilePath, getPageUrlFromPathname, resolveSiteUrl } from "./site-paths";
+import type { ComponentAdapter } from "./component-adapters";
+import { createInFileAnchors, resolveMarkdownLinks, rewriteExcludedLinks, rewriteInFileLinks, type ExcludedLinkPolicy } from "./links";
+import { formatRedactionStats, redactPages, type RedactionPattern } from "./redaction";
+import { buildSourceIndex, findSourceEntry, readSourceDocument, type SourceEntry } from "./source-content";
+
+export type { PagePattern } from "./page-filter";
+export type { PageHeading } from "./outline";
+export type { ImagePolicy, TableMode } from "./simple-markdown";
+export type { StrictOptions, ValidationIssueKind } from "./validation";
+export type { LlmsManifest, LlmsManifestPage } from "./manifest";
+export type { RedactionPattern, RedactionRule } from "./redaction";
+export type { ExcludedLinkPolicy } from "./links";
+export type { ComponentAdapter } from "./component-adapters";
+export { starlightComponentAdapters } from "./component-adapters";
+export { redactionPresets } from "./redaction";
 
 export interface PageData {
   pathname: string;
@@ -12,94 +56,237 @@ export interface PageData {
   content?: string;
   slug?: string;
   order?: number;
-  lang?: string; // Add language property for multilingual support
+  lang?: string; // BCP-47 language tag, e.g. "en" or "pt-BR"
+  headings?: PageHeading[]; // h2-h6 outline used by llms-small.txt
+}
+
+export interface TransformPageContext {
+  document: Document | null; // DOM of the page, built on first access; null when read from Markdown source
+  tree: Root | null; // Parsed HTML of the page as a hast tree, null when read from Markdown source
+  pathname: string;
+  htmlFilePath: string;
+  sourceFilePath?: string; // Set when the page was read from Markdown source
+  astroConfig?: AstroConfig; // Unset in the on-demand endpoint, which only knows the URL settings
+}
+
+export interface LlmsSection {
+  title: string;
+  description?: string; // Blurb rendered under the section heading
+  patterns: PagePattern[]; // Pages belong to the first section whose patterns match
+}
+
+export interface SelectorOverride {
+  patterns: PagePattern[]; // Routes the override applies to
+  contentSelector?: string;
+  ignoreSelectors?: string[]; // Added to the global ignoreSelectors
+  titleSelector?: string;
+}
+
+/**
+ * Built-in renderers: the llms.txt index, the structure-only small file, the full content,
+ * and the page manifest as JSON or JSON Lines
+ */
+export type OutputRendererName = "index" | "small" | "full" | "json" | "jsonl";
+
+export interface OutputRenderContext {
+  title: string;
+  description: string;
+  site: string; // Base URL for page links, empty when site is not set
+  lang?: string; // Locale of a language-specific file
+}
+
+export interface LlmsOutput {
+  filename: string; // Language-specific files insert the locale before the extension, e.g. llms-api-en.txt
+  patterns?: PagePattern[]; // Pages to include, all pages by default
+  renderer: OutputRendererName | ((pages: PageData[], context: OutputRenderContext) => string);
+  title?: string; // Header title, defaults to the title option
+  description?: string; // Header description, defaults to the description option
+}
+
+export interface LocaleOverrides {
+  title?: string;
+  description?: string;
+  details?: string;
 }
 
+/**
+ * Return a modified page, several pages, or null to drop the page.
+ * Returning undefined keeps the (possibly mutated) page as is.
+ */
+export type TransformPageResult = PageData | PageData[] | null | undefined;
+
 export interface LlmsConfig {
   title?: string;
   description?: string;
-  includePatterns?: string[];
-  excludePatterns?: string[];
+  includePatterns?: PagePattern[]; // Globs ("!" negates), regexes or predicates
+  excludePatterns?: PagePattern[];
   customSeparator?: string;
+  outputs?: LlmsOutput[]; // Files to generate, defaults to llms.txt, llms-small.txt and llms-full.txt
+  manifest?: boolean; // Also generate llms.json and llms.jsonl with every page's data
   i18n?: boolean; // Add i18n switch to enable/disable multilingual support
+  defaultLocale?: string; // Locale of the main files, defaults to Astro's i18n.defaultLocale
+  locales?: Record<string, LocaleOverrides>; // Per-locale title, description and details
+  contentSource?: "html" | "source"; // "source" reads authored .md/.mdx instead of built HTML
+  collectionRoutes?: Record<string, string>; // Route prefix per content collection in source mode
+  sections?: LlmsSection[]; // Ordered groups for llms.txt, replacing directory grouping
+  indexFormat?: "default" | "spec"; // "spec" follows the llms.txt proposal layout
+  details?: string; // Free-form Markdown placed after the summary in llms.txt
+  optionalPatterns?: PagePattern[]; // Pages listed under "## Optional" in spec format
+  markdownMirrors?: boolean; // Write each page as Markdown next to its HTML and link to it from llms.txt
+  maxTokens?: number; // Split llms-full.txt into numbered chunks above this estimated size
+  maxBytes?: number;
+  tokenEstimator?: (text: string) => number;
+  contentSelector?: string; // Root element to convert, defaults to main or body
+  ignoreSelectors?: string[]; // Removed in addition to header, footer, nav, .no-llms, [data-llms="exclude"], script and style
+  titleSelector?: string; // Element holding the page title, defaults to h1 or title
+  selectorOverrides?: SelectorOverride[]; // Per-route selectors, applied in order
+  tableMode?: TableMode; // "gfm" tables, pipe-joined "text" rows, or "drop"
+  imagePolicy?: ImagePolicy; // "alt" keeps alt text, captions and diagram sources; "remove" drops images
+  keepSelectors?: string[]; // Media elements to keep despite the built-in image/video removal
+  componentAdapters?: ComponentAdapter[]; // Convert custom components, applied before the built-in Starlight adapters
+  excludedLinks?: ExcludedLinkPolicy; // "drop" unlinks, "flag" marks links to pages left out of the llms files
+  redact?: RedactionPattern[]; // Replaced in every page's Markdown before files are rendered, e.g. API keys or emails
+  renderOrigin?: string; // Running server (e.g. `astro preview`) to fetch on-demand routes from during build
+  serverPathnames?: string[]; // Extra on-demand routes to fetch from renderOrigin, e.g. dynamic SSR pages
+  endpoint?: boolean; // Serve llms files from an on-demand endpoint instead of writing static files
+  cache?: boolean; // Reuse converted pages from previous builds when their HTML is unchanged
+  strict?: boolean | StrictOptions; // Fail the build when validation finds issues beyond the allowed counts
+  workers?: number; // Worker threads converting pages during build, defaults to CPU count - 1; 0 converts on the main thread
+  transformPage?: (
+    page: PageData,
+    context: TransformPageContext
+  ) => TransformPageResult | Promise<TransformPageResult>;
 }
 
+type DevServer = Parameters<NonNullable<AstroIntegration["hooks"]["astro:server:setup"]>>[0]["server"];
+
+type LlmsLogger = Pick<AstroIntegrationLogger, "info" | "debug" | "warn">;
+
+/**
+ * The parts of the Astro config used to convert pages and build URLs.
+ * The on-demand endpoint and worker threads only have these, not the full config.
+ */
+type LlmsAstroSettings = Pick<AstroConfig, "site" | "base" | "trailingSlash" | "i18n">;
+
+const defaultOutputs: LlmsOutput[] = [
+  { filename: "llms.txt", renderer: "index" },
+  { filename: "llms-small.txt", renderer: "small" },
+  { filename: "llms-full.txt", renderer: "full" }
+];
+
+const manifestOutputs: LlmsOutput[] = [
+  { filename: "llms.json", renderer: "json" },
+  { filename: "llms.jsonl", renderer: "jsonl" }
+];
+
 // Simple configuration cache for performance
 const configurationCache = new Map<string, Required<LlmsConfig>>();
 
 /**
  * Astro integration to automatically generate AI-friendly documentation files
- * Generates /llms.txt, /llms-small.txt, and /llms-full.txt in build directory only
+ * Generates /llms.txt, /llms-small.txt, and /llms-full.txt: written to the build directory by `astro build`,
+ * served live by `astro dev`, or served by an on-demand endpoint with `endpoint: true`
  */
 export default function astroLLMsGenerator(userConfig: LlmsConfig = {}): AstroIntegration {
   let astroConfiguration: AstroConfig;
+  let resolvedRoutes: IntegrationResolvedRoute[] = [];
 
   return {
     name: "astro-llms-generate",
     hooks: {
-      "astro:config:setup": ({ config }) => {
+      "astro:config:setup": ({ config, injectRoute, updateConfig, logger }) => {
         astroConfiguration = config;
+
+        if (userConfig.endpoint) {
+          setupEndpoint(injectRoute, updateConfig, logger, config, userConfig, () => resolvedRoutes);
+        }
+      },
+
+      "astro:routes:resolved": ({ routes }) => {
+        resolvedRoutes = routes;
+      },
+
+      "astro:server:setup": ({ server, logger }) => {
+        setupDevServer(server, logger, astroConfiguration, userConfig, () => resolvedRoutes);
       },
 
       "astro:build:start": async ({ logger }) => {
         logger.info("Starting LLMs documentation generation...");
       },
 
-      "astro:build:done": async ({ dir, pages, logger }) => {
+      "astro:build:done": async ({ dir, pages, assets, logger }) => {
         const distDirectory = fileURLToPath(dir);
         
         try {
           const config = await generateSmartDefaults(astroConfiguration, userConfig, distDirectory);
-          const pageDataList = await discoverAndProcessPages(pages, distDirectory, astroConfiguration);
-          
-          // Generate main files (no language grouping, for backward compatibility)
-          const mainFilePromises = [
-            generateLlmsIndexFile(pageDataList, config, distDirectory, astroConfiguration),
-            generateLlmsSmallFile(pageDataList, config, distDirectory, astroConfiguration),
-            generateLlmsFullFile(pageDataList, config, distDirectory)
-          ];
-          
-          // Check if i18n is enabled
+          if (config.endpoint) {
+            const prerenderedPathnames = JSON.stringify(pages.map((page) => page.pathname));
+            await fs.writeFile(path.join(distDirectory, prerenderedRoutesFilename), prerenderedPathnames, "utf-8");
+            logger.info("Serving llms files from the on-demand endpoint, no static files written");
+            return;
+          }
+
+          const pageCache = config.cache
+            ? await loadPageCache(fileURLToPath(astroConfiguration.cacheDir), createPageCacheFingerprint(astroConfiguration, userConfig))
+            : undefined;
+          const workerPool = createWorkerPoolForBuild(astroConfiguration, userConfig, config, logger);
+          const failedPages: PageFailure[] = [];
+          const conversion: PageConversionOptions = { astroConfig: astroConfiguration, pageCache, workerPool, failedPages };
+
+          const htmlSource = createDistHtmlSource(distDirectory, astroConfiguration, assets);
+          let staticPages: PageData[];
+          let onDemandPages: PageData[];
+          try {
+            staticPages = await discoverAndProcessPages(pages, htmlSource, astroConfiguration, config, logger, conversion);
+            onDemandPages = await processOnDemandPages(resolvedRoutes, astroConfiguration, config, logger, conversion);
+          } finally {
+            await workerPool?.close();
+          }
+          if (pageCache) {
+            logger.info(formatPageCacheStats(pageCache.stats));
+            await pageCache.save();
+          }
+
+          const pageDataList = sortPagesByOrder([...staticPages, ...onDemandPages]);
+          if (config.redact.length > 0) {
+            logger.info(formatRedactionStats(redactPages(pageDataList, config.redact)));
+          }
+          const builtPathnames = pages.map((page) => page.pathname).concat(onDemandPages.map((page) => page.pathname));
+          applyExcludedLinkPolicy(pageDataList, builtPathnames, astroConfiguration, config, logger);
+          const llmsFiles = createLlmsFiles(pageDataList, config, astroConfiguration);
+
+          await Promise.all([
+            writeLlmsFiles(llmsFiles, distDirectory),
+            config.markdownMirrors ? generateMarkdownMirrorFiles(pageDataList, distDirectory) : undefined
+          ]);
+
+          const validationReport = await validateLlmsOutput({
+            distDirectory,
+            files: [...llmsFiles].map(([filename, file]) => ({ filename, kind: file.kind })),
+            pages: pageDataList,
+            failedPages,
+            site: astroConfiguration.site,
+            base: astroConfiguration.base,
+            serverPathnames: onDemandPages.map((page) => page.pathname)
+          }, typeof config.strict === "object" ? config.strict : {});
+          if (config.strict && validationReport.exceeded.length > 0) {
+            throw new Error(formatValidationReport(validationReport));
+          }
+          if (validationReport.issues.length > 0) {
+            logger.warn(formatValidationReport(validationReport));
+          }
+
+          const outputFilenames = config.outputs.map((output) => output.filename).join(", ");
           if (config.i18n) {
-            // Group pages by language
-            const langGroups: Record<string, PageData[]> = {};
-            for (const page of pageDataList) {
-              // Use 'und' (undefined language) as default if no language detected
-              const lang = page.lang || "und";
-              if (!langGroups[lang]) langGroups[lang] = [];
-              langGroups[lang].push(page);
-            }
-
-            // Generate multilingual files
-            const languageFilePromises: Promise<void>[] = [];
-            for (const [lang, pages] of Object.entries(langGroups)) {
-              // For default language files, we keep the original names
-              if (lang === "und") {
-                languageFilePromises.push(
-                  generateLlmsIndexFile(pages, config, distDirectory, astroConfiguration, "und"),
-                  generateLlmsSmallFile(pages, config, distDirectory, astroConfiguration, "und"),
-                  generateLlmsFullFile(pages, config, distDirectory, "und")
-                );
-              } else {
-                // For specific languages, add language code to filename
-                languageFilePromises.push(
-                  generateLlmsIndexFile(pages, config, distDirectory, astroConfiguration, lang),
-                  generateLlmsSmallFile(pages, config, distDirectory, astroConfiguration, lang),
-                  generateLlmsFullFile(pages, config, distDirectory, lang)
-                );
-              }
-            }
-            
-            await Promise.all([...mainFilePromises, ...languageFilePromises]);
-            logger.info("✅ Generated llms.txt, llms-small.txt, llms-full.txt and language-specific files");
+            logger.info(`✅ Generated ${outputFilenames} and language-specific files`);
           } else {
-            // Only generate main files when i18n is disabled
-            await Promise.all(mainFilePromises);
-            logger.info("✅ Generated llms.txt, llms-small.txt, and llms-full.txt");
+            logger.info(`✅ Generated ${outputFilenames}`);
           }
           
           logger.info("Available in build output dir");
         } catch (error) {
+          // In strict mode a broken llms output must not ship
+          if (userConfig.strict) throw error;
           logger.error(`Failed to generate LLMs files: ${error}`);
         }
       },
@@ -109,13 +296,15 @@ export default function astroLLMsGenerator(userConfig: LlmsConfig = {}): AstroIn
 
 /**
  * Generate smart defaults with caching
+ *
+ * @internal
  */
-async function generateSmartDefaults(
-  astroConfig: AstroConfig,
+export async function generateSmartDefaults(
+  astroConfig: LlmsAstroSettings,
   userConfig: LlmsConfig,
   distDirectory: string
 ): Promise<Required<LlmsConfig>> {
-  const cacheKey = createCacheKey(astroConfig, userConfig);
+  const cacheKey = createConfigCacheKey(astroConfig, userConfig);
   
   if (configurationCache.has(cacheKey)) {
     return configurationCache.get(cacheKey)!;
@@ -130,7 +319,38 @@ async function generateSmartDefaults(
     includePatterns: userConfig.includePatterns || ["**/*"],
     excludePatterns: userConfig.excludePatterns || ["**/404*", "**/500*", "**/api/**"],
     customSeparator: userConfig.customSeparator || "\n\n---\n\n",
-    i18n: userConfig.i18n ?? false // Set default value for i18n option
+    outputs: resolveOutputs(userConfig),
+    manifest: userConfig.manifest ?? false,
+    i18n: userConfig.i18n ?? false, // Set default value for i18n option
+    defaultLocale: userConfig.defaultLocale || "",
+    locales: userConfig.locales || {},
+    contentSource: userConfig.contentSource || "html",
+    collectionRoutes: { docs: "/", ...userConfig.collectionRoutes },
+    sections: userConfig.sections || [],
+    indexFormat: userConfig.indexFormat || "default",
+    details: userConfig.details?.trim() || "",
+    optionalPatterns: userConfig.optionalPatterns || [],
+    markdownMirrors: userConfig.markdownMirrors ?? false,
+    maxTokens: userConfig.maxTokens ?? Infinity,
+    maxBytes: userConfig.maxBytes ?? Infinity,
+    tokenEstimator: userConfig.tokenEstimator || defaultTokenEstimator,
+    contentSelector: userConfig.contentSelector || "",
+    ignoreSelectors: userConfig.ignoreSelectors || [],
+    titleSelector: userConfig.titleSelector || "",
+    selectorOverrides: userConfig.selectorOverrides || [],
+    tableMode: userConfig.tableMode || "gfm",
+    imagePolicy: userConfig.imagePolicy || "alt",
+    keepSelectors: userConfig.keepSelectors || [],
+    componentAdapters: userConfig.componentAdapters || [],
+    excludedLinks: userConfig.excludedLinks || "keep",
+    redact: userConfig.redact || [],
+    renderOrigin: userConfig.renderOrigin || "",
+    serverPathnames: userConfig.serverPathnames || [],
+    endpoint: userConfig.endpoint ?? false,
+    cache: userConfig.cache ?? true,
+    strict: userConfig.strict ?? false,
+    workers: userConfig.workers ?? Math.max(os.availableParallelism() - 1, 1),
+    transformPage: userConfig.transformPage || ((page) => page)
   };
 
   configurationCache.set(cacheKey, completeConfig);
@@ -138,163 +358,811 @@ async function generateSmartDefaults(
 }
 
 /**
- * Memory-efficient page discovery with smaller batch processing
+ * Serve llms files from memory during `astro dev`, rendering pages through the dev server.
+ * Output is cached until any watched file changes.
  */
-async function discoverAndProcessPages(
-  pages: { pathname: string }[],
-  distDirectory: string,
-  astroConfig: AstroConfig
-): Promise<PageData[]> {
-  const processedPages: PageData[] = [];
-  const batchSize = 5; // Reduced batch size for memory efficiency
-  
-  for (let i = 0; i < pages.length; i += batchSize) {
-    const currentBatch = pages.slice(i, i + batchSize);
-    const batchResults = await processBatchOfPages(currentBatch, distDirectory, astroConfig);
-    processedPages.push(...batchResults);
-    
-    // Clear memory between batches
-    if (global.gc) {
-      global.gc();
+function setupDevServer(
+  server: DevServer,
+  logger: AstroIntegrationLogger,
+  astroConfig: AstroConfig,
+  userConfig: LlmsConfig,
+  getRoutes: () => IntegrationResolvedRoute[]
+): void {
+  let cachedFiles: Promise<Map<string, string>> | undefined;
+  const basePath = `/${astroConfig.base.replace(/^\/+|\/+$/g, "")}/`.replace(/^\/\/$/, "/");
+
+  server.watcher.on("all", () => {
+    cachedFiles = undefined;
+  });
+
+  server.middlewares.use(async (request, response, next) => {
+    const requestPath = decodeURIComponent((request.url || "").split("?")[0]);
+    const filename = requestPath.startsWith(basePath) ? requestPath.slice(basePath.length) : "";
+    if (!isOutputFilename(filename, resolveOutputs(userConfig))) return next();
+
+    try {
+      cachedFiles ??= generateDevLlmsFiles(server, logger, astroConfig, userConfig, getRoutes());
+      const content = (await cachedFiles).get(filename);
+      if (content === undefined) return next();
+
+      response.setHeader("Content-Type", getContentType(filename));
+      response.end(content);
+    } catch (error) {
+      cachedFiles = undefined;
+      logger.error(`Failed to generate LLMs files: ${error}`);
+      next(error);
     }
+  });
+}
+
+async function generateDevLlmsFiles(
+  server: DevServer,
+  logger: AstroIntegrationLogger,
+  astroConfig: AstroConfig,
+  userConfig: LlmsConfig,
+  routes: IntegrationResolvedRoute[]
+): Promise<Map<string, string>> {
+  const config = await generateSmartDefaults(astroConfig, userConfig, "");
+  const address = server.httpServer?.address() as AddressInfo | null;
+  if (!address) throw new Error("Dev server is not listening");
+
+  // Only static routes can be listed; dynamic ones come from Markdown sources in source mode
+  const pathnames = new Set(getStaticRoutePathnames(routes, astroConfig, () => true));
+  if (config.contentSource === "source") {
+    const sourceIndex = await buildSourceIndex(fileURLToPath(astroConfig.srcDir), config.collectionRoutes);
+    sourceIndex.forEach((_entry, route) => pathnames.add(formatRoutePathname(route, astroConfig)));
+  }
+
+  return await renderLlmsFilesFromOrigin(`http://localhost:${address.port}`, [...pathnames], astroConfig, userConfig, logger, astroConfig);
+}
+
+/**
+ * Render llms files by fetching every page from a running server.
+ * Shared by the dev server, which has the full Astro config, and the on-demand endpoint.
+ *
+ * @internal
+ */
+export async function renderLlmsFilesFromOrigin(
+  origin: string,
+  pathnames: string[],
+  astroSettings: LlmsAstroSettings,
+  userConfig: LlmsConfig,
+  logger: LlmsLogger,
+  astroConfig?: AstroConfig
+): Promise<Map<string, string>> {
+  // Markdown mirrors are only written by a static build, so served files link to the HTML pages
+  const config = { ...await generateSmartDefaults(astroSettings, userConfig, ""), markdownMirrors: false };
+  const htmlSource = createHttpHtmlSource(origin, astroSettings);
+
+  const pages = pathnames.map((pathname) => ({ pathname }));
+  const pageDataList = await discoverAndProcessPages(pages, htmlSource, astroSettings, config, logger, { astroConfig });
+  if (config.redact.length > 0) {
+    logger.debug(formatRedactionStats(redactPages(pageDataList, config.redact)));
   }
+  applyExcludedLinkPolicy(pageDataList, pathnames, astroSettings, config, logger);
+  const files = new Map<string, string>();
+  createLlmsFiles(pageDataList, config, astroSettings)
+    .forEach((file, filename) => files.set(filename, renderLlmsFileContent(file.content)));
+  return files;
+}
+
+/**
+ * Inject on-demand routes for llms files, with the build's settings and routes in a virtual module
+ */
+function setupEndpoint(
+  injectRoute: (route: { pattern: string; entrypoint: string | URL; prerender?: boolean }) => void,
+  updateConfig: (config: Partial<AstroConfig>) => unknown,
+  logger: AstroIntegrationLogger,
+  astroConfig: AstroConfig,
+  userConfig: LlmsConfig,
+  getRoutes: () => IntegrationResolvedRoute[]
+): void {
+  const entrypoint = new URL("./endpoint.ts", import.meta.url);
+  injectRoute({ pattern: "/llms.txt", entrypoint, prerender: false });
+  injectRoute({ pattern: "/llms-[variant].txt", entrypoint, prerender: false });
+
+  // Outputs named llms-*.txt are served by the routes above
+  for (const output of resolveOutputs(userConfig)) {
+    if (isOutputFilename(output.filename, defaultOutputs)) continue;
+    injectRoute({ pattern: `/${output.filename}`, entrypoint, prerender: false });
+    injectRoute({ pattern: `/${addFilenameSuffix(output.filename, "[variant]")}`, entrypoint, prerender: false });
+  }
+
+  const functionOptions = findFunctionOptions(userConfig);
+  if (functionOptions.length > 0) {
+    logger.warn(`Options ignored by the llms endpoint because they are functions: ${functionOptions.join(", ")}`);
+  }
+
+  const resolvedId = `\0${runtimeModuleId}`;
+  updateConfig({
+    vite: {
+      // jsdom is CommonJS and breaks when bundled into the server build
+      ssr: { external: ["jsdom"] },
+      plugins: [{
+        name: "astro-llms-generate:runtime",
+        resolveId: (id: string) => (id === runtimeModuleId ? resolvedId : undefined),
+        load: (id: string) => {
+          if (id !== resolvedId) return undefined;
+
+          // Routes are resolved by the time the server bundle is built
+          const runtimeJson = serializeEndpointRuntime({
+            // Source files are not deployed, so the endpoint always reads rendered HTML
+            userConfig: { ...userConfig, contentSource: "html", endpoint: false },
+            site: astroConfig.site,
+            base: astroConfig.base,
+            trailingSlash: astroConfig.trailingSlash,
+            pathnames: getStaticRoutePathnames(getRoutes(), astroConfig, () => true)
+              .concat(userConfig.serverPathnames || [])
+          });
+          return `export default ${JSON.stringify(runtimeJson)};`;
+        }
+      }]
+    }
+  });
+}
+
+/**
+ * Fetch on-demand (server-rendered) routes from renderOrigin during build.
+ * Without renderOrigin they are skipped with a warning instead of being silently dropped.
+ */
+async function processOnDemandPages(
+  routes: IntegrationResolvedRoute[],
+  astroConfig: AstroConfig,
+  config: Required<LlmsConfig>,
+  logger: AstroIntegrationLogger,
+  conversion: PageConversionOptions
+): Promise<PageData[]> {
+  const pathnames = [
+    ...getStaticRoutePathnames(routes, astroConfig, (route) => !route.isPrerendered),
+    ...config.serverPathnames
+  ];
+  if (pathnames.length === 0) return [];
+
+  if (!config.renderOrigin) {
+    logger.warn(`Skipping ${pathnames.length} on-demand route(s); set renderOrigin to include them: ${pathnames.join(", ")}`);
+    return [];
+  }
+
+  const htmlSource = createHttpHtmlSource(config.renderOrigin, astroConfig);
+  const pages = pathnames.map((pathname) => ({ pathname }));
+  return await discoverAndProcessPages(pages, htmlSource, astroConfig, config, logger, conversion);
+}
+
+/**
+ * Pathnames of page routes without parameters, in the same format as Astro's build output
+ */
+function getStaticRoutePathnames(
+  routes: IntegrationResolvedRoute[],
+  astroConfig: LlmsAstroSettings,
+  predicate: (route: IntegrationResolvedRoute) => boolean
+): string[] {
+  return routes
+    .filter((route) => route.type === "page" && route.pathname !== undefined && route.origin !== "internal")
+    .filter(predicate)
+    .map((route) => formatRoutePathname(route.pathname!, astroConfig));
+}
 
-  return sortPagesByPathname(processedPages);
+function formatRoutePathname(routePath: string, astroConfig: LlmsAstroSettings): string {
+  const trimmed = routePath.replace(/^\/+|\/+$/g, "");
+  return trimmed && astroConfig.trailingSlash !== "never" ? `${trimmed}/` : trimmed;
 }
 
 /**
- * Process a batch of pages in parallel with memory cleanup
+ * Where rendered page HTML comes from: built files, or a running server
  */
-async function processBatchOfPages(
-  pageBatch: { pathname: string }[],
+interface PageHtmlSource {
+  locate(pathname: string): string; // File path or URL of the rendered page
+  read(location: string): Promise<string>;
+}
+
+function createHttpHtmlSource(origin: string, astroConfig: LlmsAstroSettings): PageHtmlSource {
+  return {
+    locate: (pathname) => new URL(`${astroConfig.base.replace(/\/+$/, "")}/${pathname}`, origin).toString(),
+    read: async (location) => {
+      const response = await fetch(location);
+      if (!response.ok) throw new Error(`HTTP ${response.status} for ${location}`);
+      return await response.text();
+    }
+  };
+}
+
+function createDistHtmlSource(
   distDirectory: string,
-  astroConfig: AstroConfig
+  astroConfig: AstroConfig,
+  assets: Map<string, URL[]>
+): PageHtmlSource {
+  const htmlFiles = createHtmlFileIndex(distDirectory, assets);
+  return {
+    locate: (pathname) => getHtmlFilePath(pathname, distDirectory, astroConfig.build.format, htmlFiles),
+    read: (location) => fs.readFile(location, "utf-8")
+  };
+}
+
+/**
+ * Optional helpers for converting pages during build
+ */
+interface PageConversionOptions {
+  astroConfig?: AstroConfig; // Full config for source mode and the transformPage context, where one exists
+  pageCache?: PageCache;
+  workerPool?: PageWorkerPool;
+  failedPages?: PageFailure[]; // Collects pages that could not be processed
+}
+
+/**
+ * Convert pages with a bounded number in flight, collecting results as each page finishes.
+ * The HTML of a page is released once it is converted, but every page's data is kept:
+ * files are only rendered once all pages are known.
+ */
+async function discoverAndProcessPages(
+  allPages: { pathname: string }[],
+  htmlSource: PageHtmlSource,
+  astroConfig: LlmsAstroSettings,
+  config: Required<LlmsConfig>,
+  logger: LlmsLogger,
+  conversion: PageConversionOptions = {}
 ): Promise<PageData[]> {
-  const batchPromises = pageBatch.map(async (page) => {
-    try {
-      const htmlFilePath = getHtmlFilePath(page.pathname, distDirectory);
-      await fs.access(htmlFilePath);
-      
-      return await extractPageDataFromHtml(htmlFilePath, page.pathname, astroConfig);
-    } catch (error) {
-      console.warn(`⚠️ Could not process page: ${page.pathname}`);
-      return null;
+  // Filter by pathname before any HTML is read
+  const { pages, report } = filterPagesByPatterns(allPages, config.includePatterns, config.excludePatterns);
+  for (const decision of report.decisions) {
+    logger.debug(`${decision.included ? "+" : "-"} ${decision.pathname || "/"}: ${decision.reason}`);
+  }
+  logger.info(formatPageFilterReport(report));
+
+  // Source files are only reachable where the full config is, i.e. not from the endpoint
+  const sourceIndex = config.contentSource === "source" && conversion.astroConfig
+    ? await buildSourceIndex(fileURLToPath(conversion.astroConfig.srcDir), config.collectionRoutes)
+    : undefined;
+  if (sourceIndex) {
+    logger.info(`Source mode: found ${sourceIndex.size} Markdown source files`);
+  }
+
+  // Keep every worker busy while the next pages are read, without holding all HTML in memory
+  const concurrency = conversion.workerPool ? conversion.workerPool.size * 2 : 5;
+  const processedPages: PageData[] = [];
+  const unmatchedSelectorCounts = new Map<string, { unmatched: UnmatchedSelector; pageCount: number }>();
+  let nextPageIndex = 0;
+
+  const processNextPages = async () => {
+    while (nextPageIndex < pages.length) {
+      const page = pages[nextPageIndex++];
+      const extraction = await processPage(page, htmlSource, astroConfig, config, logger, sourceIndex, conversion);
+      processedPages.push(...extraction.pages);
+
+      for (const unmatched of extraction.unmatchedSelectors) {
+        logger.debug(`${unmatched.option} "${unmatched.selector}" matched nothing on ${page.pathname || "/"}`);
+        const key = `${unmatched.option}\0${unmatched.selector}`;
+        const count = unmatchedSelectorCounts.get(key) ?? { unmatched, pageCount: 0 };
+        count.pageCount++;
+        unmatchedSelectorCounts.set(key, count);
+      }
     }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, pages.length) }, processNextPages));
+
+  // One warning per selector; the pages are listed in the debug log
+  for (const { unmatched, pageCount } of unmatchedSelectorCounts.values()) {
+    logger.warn(`⚠️ ${unmatched.option} "${unmatched.selector}" matched nothing on ${pageCount} page(s), using ${selectorFallbacks[unmatched.option]}`);
+  }
+
+  // Links follow trailingSlash, also for pages from source files, transformPage or renderOrigin
+  for (const page of processedPages) {
+    page.pathname = applyTrailingSlash(page.pathname, astroConfig.trailingSlash);
+  }
+
+  return sortPagesByOrder(processedPages);
+}
+
+async function processPage(
+  page: { pathname: string },
+  htmlSource: PageHtmlSource,
+  astroSettings: LlmsAstroSettings,
+  config: Required<LlmsConfig>,
+  logger: LlmsLogger,
+  sourceIndex: Map<string, SourceEntry> | undefined,
+  { astroConfig, pageCache, workerPool, failedPages }: PageConversionOptions
+): Promise<PageExtraction> {
+  try {
+    const htmlFilePath = htmlSource.locate(page.pathname);
+    const sourceEntry = sourceIndex && findSourceEntry(sourceIndex, page.pathname);
+    if (sourceEntry) {
+      const pages = await extractPageDataFromSource(sourceEntry, htmlFilePath, page.pathname, astroSettings, config, astroConfig);
+      return { pages, unmatchedSelectors: [] };
+    }
+
+    const htmlContent = await htmlSource.read(htmlFilePath);
+    const cacheKey = pageCache?.createKey(page.pathname, htmlContent);
+    const cachedExtraction = cacheKey && pageCache?.get(cacheKey);
+    if (cachedExtraction) return cachedExtraction;
+
+    const extraction = workerPool
+      ? await workerPool.convert(page.pathname, htmlFilePath, htmlContent).catch((error) => {
+        logger.debug(`Converting ${page.pathname || "/"} on the main thread: ${error}`);
+        return extractPageDataFromHtml(htmlContent, htmlFilePath, page.pathname, astroSettings, config, astroConfig);
+      })
+      : await extractPageDataFromHtml(htmlContent, htmlFilePath, page.pathname, astroSettings, config, astroConfig);
+    if (cacheKey) pageCache?.set(cacheKey, extraction);
+    return extraction;
+  } catch (error) {
+    logger.warn(`⚠️ Could not process page: ${page.pathname || "/"}`);
+    failedPages?.push({ pathname: page.pathname, error: String(error) });
+    return { pages: [], unmatchedSelectors: [] };
+  }
+}
+
+/**
+ * Start a worker pool for build-time conversion when the options can be passed to workers.
+ * Function-valued options such as transformPage only exist on the main thread.
+ */
+function createWorkerPoolForBuild(
+  astroConfig: AstroConfig,
+  userConfig: LlmsConfig,
+  config: Required<LlmsConfig>,
+  logger: AstroIntegrationLogger
+): PageWorkerPool | undefined {
+  if (config.workers < 1 || config.contentSource === "source") return undefined;
+
+  // Patterns that decide which pages are converted are applied on the main thread
+  const functionOptions = findFunctionOptions(userConfig)
+    .filter((option) => option === "transformPage" || /^(selectorOverrides|componentAdapters)\./.test(option));
+  if (functionOptions.length > 0) {
+    logger.debug(`Converting pages on the main thread because these options are functions: ${functionOptions.join(", ")}`);
+    return undefined;
+  }
+
+  const runtimeJson = serializeEndpointRuntime({
+    userConfig,
+    site: astroConfig.site,
+    base: astroConfig.base,
+    trailingSlash: astroConfig.trailingSlash,
+    pathnames: []
   });
+  // Pages still convert when workers fail, only slower, so say why once instead of per page
+  const warnAboutFallback = (error: unknown) =>
+    logger.warn(`⚠️ Page workers are unavailable, converting pages on the main thread: ${error instanceof Error ? error.message : error}`);
+  try {
+    return createPageWorkerPool(config.workers, runtimeJson, warnAboutFallback);
+  } catch (error) {
+    warnAboutFallback(error);
+    return undefined;
+  }
+}
+
+/**
+ * A configured selector that matched nothing on a page, so the default was used
+ *
+ * @internal
+ */
+export interface UnmatchedSelector {
+  option: "contentSelector" | "titleSelector";
+  selector: string;
+}
 
-  const batchResults = await Promise.all(batchPromises);
-  return batchResults.filter((page): page is PageData => page !== null);
+/**
+ * Pages extracted from one HTML file, with the selectors that matched nothing on it.
+ * Cached and passed back from workers as a whole, so cache hits still report unmatched selectors.
+ *
+ * @internal
+ */
+export interface PageExtraction {
+  pages: PageData[];
+  unmatchedSelectors: UnmatchedSelector[];
 }
 
 /**
- * Extract page data from HTML file with memory-efficient processing
+ * Extract page data from rendered HTML with memory-efficient processing.
+ * Runs the user's transformPage hook, which may yield zero or more pages.
+ *
+ * @internal
  */
-async function extractPageDataFromHtml(
+export async function extractPageDataFromHtml(
+  htmlContent: string,
   htmlFilePath: string, 
   pathname: string, 
-  astroConfig: AstroConfig
-): Promise<PageData> {
+  astroSettings: LlmsAstroSettings,
+  config: Required<LlmsConfig>,
+  astroConfig?: AstroConfig
+): Promise<PageExtraction> {
+  // Only the transformPage hook gets a DOM, and only if it reads context.document
+  let documentModel: JSDOM | undefined;
+
   try {
-    const htmlContent = await fs.readFile(htmlFilePath, "utf-8");
-    const documentModel = new JSDOM(htmlContent);
-    const document = documentModel.window.document;
+    const tree = parseHtmlDocument(htmlContent);
 
-    const extractedTitle = extractTitleFromDocument(document, pathname);
-    const metaDescription = extractMetaDescription(document);
-    const mainContent = await extractMainContentAsMarkdown(document);
-    const lang = extractLanguageFromDocument(document);
+    // Astro writes redirect stubs, e.g. for i18n fallback routes; they have no content of their own
+    if (selectElement('meta[http-equiv="refresh"]', tree)) {
+      return { pages: [], unmatchedSelectors: [] };
+    }
+    if (isPageOptedOut(tree)) {
+      return { pages: [], unmatchedSelectors: [] };
+    }
 
-    // Clean up JSDOM instance
-    documentModel.window.close();
+    const selectors = resolvePageSelectors(pathname, config);
+    const unmatchedSelectors = findUnmatchedSelectors(tree, selectors);
 
-    return {
+    const extractedTitle = extractTitleFromDocument(tree, pathname, selectors);
+    const metaDescription = extractSummary(tree) || extractMetaDescription(tree);
+    const lang = extractLanguageFromDocument(tree);
+    const order = extractOrderFromDocument(tree);
+    const markdownOptions = { ...getMarkdownOptions(config), pageUrl: getPageUrlFromPathname(pathname, astroSettings) };
+    const mainContent = await extractMainContentAsMarkdown(tree, selectors, markdownOptions);
+
+    const page: PageData = {
       pathname,
       title: extractedTitle,
       description: metaDescription,
       content: mainContent.trim(),
       slug: pathname,
-      lang: lang
+      order,
+      lang: lang,
+      headings: extractHeadingOutline(mainContent)
     };
+
+    const transformed = await config.transformPage(page, {
+      get document() {
+        documentModel ??= new JSDOM(htmlContent);
+        return documentModel.window.document;
+      },
+      tree,
+      pathname,
+      htmlFilePath,
+      astroConfig
+    });
+    return { pages: normalizeTransformResult(transformed, page), unmatchedSelectors };
   } catch (error) {
     throw new Error(`Failed to extract page data from ${htmlFilePath}: ${error}`);
+  } finally {
+    // Clean up JSDOM instance
+    documentModel?.window.close();
   }
 }
 
 /**
- * Generate llms.txt index file in build directory
+ * Build page data from authored Markdown/MDX, skipping HTML parsing entirely.
+ * Drafts are dropped; missing fields fall back the same way as in HTML mode.
  */
-async function generateLlmsIndexFile(
-  pages: PageData[],
+async function extractPageDataFromSource(
+  sourceEntry: SourceEntry,
+  htmlFilePath: string,
+  pathname: string,
+  astroSettings: LlmsAstroSettings,
   config: Required<LlmsConfig>,
-  distDirectory: string,
-  astroConfig: AstroConfig,
-  lang?: string // Add language parameter
-): Promise<void> {
-  const contentLines = createIndexFileContent(pages, config, astroConfig.site || "");
-  const filename = lang ? `llms-${lang}.txt` : "llms.txt";
-  await fs.writeFile(path.join(distDirectory, filename), contentLines, "utf-8");
+  astroConfig?: AstroConfig
+): Promise<PageData[]> {
+  const sourceDocument = readSourceDocument(sourceEntry);
+  if (sourceDocument.draft) return [];
+
+  const page: PageData = {
+    pathname,
+    title: sourceDocument.title || pathname.split("/").filter(Boolean).pop() || "Untitled",
+    description: sourceDocument.description,
+    content: resolveMarkdownLinks(sourceDocument.content, getPageUrlFromPathname(pathname, astroSettings)),
+    slug: pathname,
+    order: sourceDocument.order,
+    lang: sourceDocument.lang,
+    headings: extractHeadingOutline(sourceDocument.content)
+  };
+
+  const transformed = await config.transformPage(page, {
+    document: null,
+    tree: null,
+    pathname,
+    htmlFilePath,
+    sourceFilePath: sourceEntry.filePath,
+    astroConfig
+  });
+  return normalizeTransformResult(transformed, page);
 }
 
 /**
- * Generate llms-small.txt structure file in build directory
+ * Render every llms file in memory, keyed by filename.
+ * With i18n enabled, each language also gets its own set of files.
  */
-async function generateLlmsSmallFile(
-  pages: PageData[],
+function createLlmsFiles(
+  pageDataList: PageData[],
   config: Required<LlmsConfig>,
-  distDirectory: string,
-  astroConfig: AstroConfig,
-  lang?: string
-): Promise<void> {
-  const contentLines = createSmallFileContent(pages, config, astroConfig.site || "");
-  const filename = lang ? `llms-small-${lang}.txt` : "llms-small.txt";
-  await fs.writeFile(path.join(distDirectory, filename), contentLines, "utf-8");
+  astroConfig: LlmsAstroSettings
+): Map<string, LlmsFile> {
+  if (!config.i18n) {
+    return createLlmsFileSet(pageDataList, config, astroConfig);
+  }
+
+  // Group pages by locale, using Astro's i18n routing when configured
+  const i18nSettings = resolveI18nSettings(astroConfig, config.defaultLocale);
+  const localeGroups = groupPagesByLocale(pageDataList, i18nSettings);
+  const locales = [...localeGroups.keys()];
+
+  // Main files cover the default locale only; without a known default they keep every page
+  const defaultLocale = i18nSettings.defaultLocale;
+  const mainPages = defaultLocale ? localeGroups.get(defaultLocale) || [] : pageDataList;
+  const files = createLlmsFileSet(mainPages, localizeConfig(config, defaultLocale), astroConfig, undefined, locales);
+
+  // Add language code to filename
+  for (const [locale, pages] of localeGroups) {
+    createLlmsFileSet(pages, localizeConfig(config, locale), astroConfig, locale, locales)
+      .forEach((file, filename) => files.set(filename, file));
+  }
+
+  return files;
+}
+
+interface LocaleFileLink {
+  locale: string;
+  filename: string;
+}
+
+/**
+ * Insert a suffix before the file extension: llms-full.txt -> llms-full-en.txt
+ */
+function addFilenameSuffix(filename: string, suffix: string): string {
+  const extension = path.extname(filename);
+  return `${filename.slice(0, filename.length - extension.length)}-${suffix}${extension}`;
+}
+
+function resolveOutputs(userConfig: LlmsConfig): LlmsOutput[] {
+  const outputs = userConfig.outputs || defaultOutputs;
+  return userConfig.manifest ? [...outputs, ...manifestOutputs] : outputs;
 }
 
 /**
- * Generate llms-full.txt content file in build directory
+ * Content type for serving a generated file
+ *
+ * @internal
  */
-async function generateLlmsFullFile(
+export function getContentType(filename: string): string {
+  if (filename.endsWith(".jsonl")) return "application/jsonl; charset=utf-8";
+  if (filename.endsWith(".json")) return "application/json; charset=utf-8";
+  return "text/plain; charset=utf-8";
+}
+
+/**
+ * Whether a requested filename is one of the configured outputs or one of its language or chunk variants
+ */
+function isOutputFilename(filename: string, outputs: LlmsOutput[]): boolean {
+  return outputs.some((output) => {
+    const extension = path.extname(output.filename);
+    const stem = output.filename.slice(0, output.filename.length - extension.length);
+    return filename === output.filename || (filename.startsWith(`${stem}-`) && filename.endsWith(extension));
+  });
+}
+
+/**
+ * Apply per-locale title, description and details overrides
+ */
+function localizeConfig(config: Required<LlmsConfig>, locale: string | undefined): Required<LlmsConfig> {
+  const overrides = locale ? config.locales[locale] : undefined;
+  if (!overrides) return config;
+
+  return {
+    ...config,
+    title: overrides.title || config.title,
+    description: overrides.description || config.description,
+    details: overrides.details?.trim() || config.details
+  };
+}
+
+/**
+ * Render every configured output (plus full content chunks) for one set of pages
+ */
+function createLlmsFileSet(
   pages: PageData[],
   config: Required<LlmsConfig>,
-  distDirectory: string,
-  lang?: string // Add language parameter
-): Promise<void> {
-  const contentLines = createFullFileContent(pages, config);
-  const filename = lang ? `llms-full-${lang}.txt` : "llms-full.txt";
-  await fs.writeFile(path.join(distDirectory, filename), contentLines, "utf-8");
+  astroConfig: LlmsAstroSettings,
+  lang?: string,
+  locales: string[] = []
+): Map<string, LlmsFile> {
+  const baseUrl = getBaseUrl(astroConfig);
+  // Custom renderers are dropped where functions cannot be passed, e.g. in the endpoint
+  const outputs = config.outputs.filter((output) => output.renderer);
+  const files = new Map<string, LlmsFile>();
+
+  const renderedOutputs = outputs.map((output) => ({
+    output,
+    filename: lang ? addFilenameSuffix(output.filename, lang) : output.filename,
+    pages: output.patterns ? pages.filter((page) => matchesPatterns(page.pathname, output.patterns!)) : pages,
+    config: {
+      ...config,
+      title: output.title || config.title,
+      description: output.description || config.description
+    }
+  }));
+
+  const chunksByOutput = new Map<LlmsOutput, FullFileChunk[]>();
+  for (const rendered of renderedOutputs) {
+    if (rendered.output.renderer !== "full") continue;
+    chunksByOutput.set(rendered.output, createFullFileChunks(rendered.pages, rendered.config, rendered.filename, baseUrl));
+  }
+
+  // Index outputs link the chunks of the full output that selects the same pages
+  const findLinkedChunks = (indexOutput: LlmsOutput): FullFileChunk[] => {
+    const patternsKey = serializeForKey(indexOutput.patterns);
+    const fullOutput = [...chunksByOutput.keys()].find((output) => serializeForKey(output.patterns) === patternsKey);
+    return fullOutput ? chunksByOutput.get(fullOutput)! : [];
+  };
+
+  for (const { output, filename, pages: outputPages, config: outputConfig } of renderedOutputs) {
+    const { renderer } = output;
+    if (renderer === "index") {
+      const indexLinks: IndexFileLinks = {
+        fullFileChunks: findLinkedChunks(output),
+        localeFiles: locales.map((locale) => ({ locale, filename: addFilenameSuffix(output.filename, locale) }))
+      };
+      files.set(filename, { kind: "index", content: createIndexFileContent(outputPages, outputConfig, baseUrl, indexLinks) });
+    } else if (renderer === "small") {
+      files.set(filename, { kind: "small", content: createSmallFileContent(outputPages, outputConfig, baseUrl) });
+    } else if (renderer === "full") {
+      files.set(filename, { kind: "full", content: createFullFileParts(outputPages, outputConfig, baseUrl) });
+      for (const chunk of chunksByOutput.get(output) || []) {
+        files.set(chunk.filename, { kind: "full", content: chunk.content });
+      }
+    } else if (renderer === "json" || renderer === "jsonl") {
+      const manifestPages = createManifestPages(outputPages, outputConfig, baseUrl);
+      const content = renderer === "json"
+        ? createJsonManifestParts({
+          version: manifestVersion,
+          title: outputConfig.title,
+          description: outputConfig.description,
+          site: astroConfig.site ? baseUrl : undefined
+        }, manifestPages)
+        : createJsonLinesManifestParts(manifestPages);
+      files.set(filename, { kind: renderer, content });
+    } else {
+      const context: OutputRenderContext = {
+        title: outputConfig.title,
+        description: outputConfig.description,
+        site: baseUrl,
+        lang
+      };
+      files.set(filename, { kind: "custom", content: renderer(outputPages, context) });
+    }
+  }
+
+  return files;
+}
+
+/**
+ * File content, either rendered or as parts generated while the file is written
+ */
+type LlmsFileContent = string | Iterable<string>;
+
+interface LlmsFile {
+  kind: OutputRendererName | "custom";
+  content: LlmsFileContent;
+}
+
+function renderLlmsFileContent(content: LlmsFileContent): string {
+  return typeof content === "string" ? content : [...content].join("");
+}
+
+/**
+ * Write rendered llms files to the build directory
+ */
+async function writeLlmsFiles(files: Map<string, LlmsFile>, distDirectory: string): Promise<void> {
+  await Promise.all([...files].map(([filename, { content }]) => {
+    const filePath = path.join(distDirectory, filename);
+    if (typeof content === "string") return fs.writeFile(filePath, content, "utf-8");
+    // Stream large files part by part instead of joining them in memory
+    return pipeline(Readable.from(content), createWriteStream(filePath, "utf-8"));
+  }));
+}
+
+/**
+ * Write each page's Markdown next to its HTML: /path/ -> /path/index.html.md, /path -> /path.md
+ */
+async function generateMarkdownMirrorFiles(pages: PageData[], distDirectory: string): Promise<void> {
+  await Promise.all(pages.map(async (page) => {
+    const mirrorFilePath = path.join(distDirectory, getMarkdownMirrorPath(page.pathname));
+    await fs.mkdir(path.dirname(mirrorFilePath), { recursive: true });
+    await fs.writeFile(mirrorFilePath, createPageMarkdown(page), "utf-8");
+  }));
 }
 
 // ====== UTILITY FUNCTIONS ======
 
-function createIndexFileContent(pages: PageData[], config: Required<LlmsConfig>, baseUrl: string): string {
+function createIndexFileContent(
+  pages: PageData[],
+  config: Required<LlmsConfig>,
+  baseUrl: string,
+  links: IndexFileLinks = { fullFileChunks: [], localeFiles: [] }
+): string {
+  if (config.indexFormat === "spec") {
+    return createSpecIndexFileContent(pages, config, baseUrl, links);
+  }
+
   const lines: string[] = [
     `# ${config.title}`,
     `> ${config.description}`,
-    "",
-    "## Pages",
     ""
   ];
 
-  const groupedPages = groupPagesByDirectory(pages);
+  if (config.details) {
+    lines.push(config.details, "");
+  }
+
+  lines.push("## Pages", "");
+
+  const pageGroups = groupPagesIntoSections(pages, config.sections);
   
-  for (const [directoryName, directoryPages] of Object.entries(groupedPages)) {
-    if (directoryName !== "/") {
-      lines.push(`### ${directoryName}`);
+  for (const group of pageGroups) {
+    if (group.title) {
+      lines.push(`### ${group.title}`);
+      lines.push("");
+    }
+    if (group.description) {
+      lines.push(group.description);
       lines.push("");
     }
     
-    for (const page of directoryPages) {
-      const pageUrl = baseUrl ? new URL(page.pathname, baseUrl).toString() : page.pathname;
+    for (const page of group.pages) {
+      const pageUrl = getPageUrl(page, baseUrl, config.markdownMirrors);
       const pageDescription = page.description ? ` - ${page.description}` : "";
       lines.push(`- [${page.title}](${pageUrl})${pageDescription}`);
     }
     lines.push("");
   }
 
+  if (links.fullFileChunks.length > 0) {
+    lines.push("## Full Content", "", ...createChunkLinks(links.fullFileChunks, baseUrl), "");
+  }
+  if (links.localeFiles.length > 0) {
+    lines.push("## Languages", "", ...createLocaleLinks(links.localeFiles, baseUrl), "");
+  }
+
   lines.push("", "*Auto-generated documentation index*");
   return lines.join("\n").trim();
 }
 
+/**
+ * Render llms.txt following the llms.txt proposal: H1, blockquote summary,
+ * optional details, then H2 file lists with a trailing "Optional" section
+ */
+function createSpecIndexFileContent(
+  pages: PageData[],
+  config: Required<LlmsConfig>,
+  baseUrl: string,
+  links: IndexFileLinks
+): string {
+  const lines: string[] = [`# ${config.title}`, ""];
+
+  if (config.description) {
+    lines.push(`> ${config.description}`, "");
+  }
+  if (config.details) {
+    lines.push(config.details, "");
+  }
+
+  const requiredPages = pages.filter((page) => !matchesPatterns(page.pathname, config.optionalPatterns));
+  const optionalPages = pages.filter((page) => matchesPatterns(page.pathname, config.optionalPatterns));
+  const pageGroups = groupPagesIntoSections(requiredPages, config.sections);
+
+  const pushGroup = (group: PageGroup) => {
+    lines.push(`## ${group.title || "Pages"}`, "");
+    if (group.description) {
+      lines.push(group.description, "");
+    }
+    for (const page of group.pages) {
+      const pageNotes = page.description ? `: ${page.description}` : "";
+      lines.push(`- [${page.title}](${getPageUrl(page, baseUrl, config.markdownMirrors)})${pageNotes}`);
+    }
+    lines.push("");
+  };
+
+  pageGroups.forEach(pushGroup);
+
+  if (links.fullFileChunks.length > 0) {
+    lines.push("## Full Content", "", ...createChunkLinks(links.fullFileChunks, baseUrl, ": "), "");
+  }
+  if (links.localeFiles.length > 0) {
+    lines.push("## Languages", "", ...createLocaleLinks(links.localeFiles, baseUrl, ": "), "");
+  }
+
+  // The spec reserves "Optional" for the last section
+  if (optionalPages.length > 0) {
+    pushGroup({ title: "Optional", pages: optionalPages });
+  }
+
+  return lines.join("\n").trim();
+}
+
 function createSmallFileContent(pages: PageData[], config: Required<LlmsConfig>, baseUrl: string): string {
   const lines: string[] = [
     `# ${config.title}`,
@@ -303,35 +1171,190 @@ function createSmallFileContent(pages: PageData[], config: Required<LlmsConfig>,
   ];
 
   for (const page of pages) {
-    const pageUrl = baseUrl ? new URL(page.pathname, baseUrl).toString() : page.pathname;
+    const pageUrl = getPageUrl(page, baseUrl);
     lines.push(`- [${page.title}](${pageUrl})`);
+
+    // Nest headings under the page, never more than one level deeper than the previous item
+    let previousLevel = 0;
+    for (const heading of page.headings || []) {
+      const level = Math.min(heading.depth - 1, previousLevel + 1);
+      lines.push(`${"  ".repeat(level)}- [${heading.text}](${pageUrl}#${heading.slug})`);
+      previousLevel = level;
+    }
   }
 
   return lines.join("\n").trim();
 }
 
-function createFullFileContent(pages: PageData[], config: Required<LlmsConfig>): string {
-  const lines: string[] = [
+function* createManifestPages(pages: PageData[], config: Required<LlmsConfig>, baseUrl: string) {
+  for (const page of pages) {
+    yield createManifestPage(page, getPageUrl(page, baseUrl), config.tokenEstimator);
+  }
+}
+
+/**
+ * Render llms-full.txt lazily, one page at a time.
+ * Links between pages of the file, and to their headings, become in-file anchors.
+ */
+function* createFullFileParts(pages: PageData[], config: Required<LlmsConfig>, baseUrl: string): Generator<string> {
+  const anchors = createInFileAnchors(config.title, pages, (page) => getPageUrl(page, baseUrl));
+
+  yield [
     `# ${config.title}`,
     `> ${config.description}`,
     "",
-    "*Complete documentation content below*",
-    ""
-  ];
+    "*Complete documentation content below*"
+  ].join("\n");
+
+  let isFirstPage = true;
+  for (const page of pages) {
+    if (!page.content) continue;
+    yield (isFirstPage ? "\n\n" : config.customSeparator) + rewriteInFileLinks(createPageMarkdown(page), anchors);
+    isFirstPage = false;
+  }
+}
+
+interface FullFileChunk {
+  filename: string;
+  content: string;
+  pageTitles: string[];
+}
+
+/**
+ * Split the full content into numbered chunk files within the maxTokens/maxBytes budget.
+ * Returns no chunks when no budget is set or everything fits in one file.
+ * Links keep their page URLs, since the linked page may be in another chunk.
+ */
+function createFullFileChunks(
+  pages: PageData[],
+  config: Required<LlmsConfig>,
+  filename: string,
+  baseUrl: string
+): FullFileChunk[] {
+  const budget: ContentBudget = {
+    maxTokens: config.maxTokens,
+    maxBytes: config.maxBytes,
+    estimateTokens: config.tokenEstimator
+  };
+  if (!Number.isFinite(budget.maxTokens) && !Number.isFinite(budget.maxBytes)) return [];
+  if (partsFitBudget(createFullFileParts(pages, config, baseUrl), budget)) return [];
 
-  const pageContents = pages
+  const blocks = pages
     .filter(page => page.content && page.content.length > 0)
-    .map(page => {
-      const parts = [`# ${page.title}`];
-      if (page.description) {
-        parts.push(`> ${page.description}`);
-      }
-      parts.push("", page.content!);
-      return parts.join("\n");
-    });
+    .map(page => ({ title: page.title, markdown: createPageMarkdown(page) }));
 
-  lines.push(pageContents.join(config.customSeparator));
-  return lines.join("\n").trim();
+  // Leave room for the header of every chunk; if more parts make "Part n of m" longer, pack again
+  const getLargestHeader = (partCount: number) => createChunkHeader(config, partCount, partCount);
+  const packWithHeader = (partCount: number) =>
+    packBlocksIntoChunks(blocks, reserveBudget(budget, getLargestHeader(partCount)), config.customSeparator);
+
+  let partCount = 1;
+  let chunkBlocks = packWithHeader(partCount);
+  while (getLargestHeader(chunkBlocks.length).length > getLargestHeader(partCount).length) {
+    partCount = chunkBlocks.length;
+    chunkBlocks = packWithHeader(partCount);
+  }
+
+  return chunkBlocks.map((blocksInChunk, index) => {
+    const header = createChunkHeader(config, index + 1, chunkBlocks.length);
+    return {
+      filename: addFilenameSuffix(filename, String(index + 1)),
+      content: (header + blocksInChunk.map(block => block.markdown).join(config.customSeparator)).trim(),
+      pageTitles: [...new Set(blocksInChunk.map(block => block.title))]
+    };
+  });
+}
+
+function createChunkHeader(config: Required<LlmsConfig>, part: number, partCount: number): string {
+  return [
+    `# ${config.title}`,
+    `> ${config.description}`,
+    "",
+    `*Part ${part} of ${partCount}*`,
+    "",
+    ""
+  ].join("\n");
+}
+
+/**
+ * Files linked from llms.txt besides the pages themselves
+ */
+interface IndexFileLinks {
+  fullFileChunks: FullFileChunk[];
+  localeFiles: LocaleFileLink[];
+}
+
+function createLocaleLinks(localeFiles: LocaleFileLink[], baseUrl: string, notesSeparator = " - "): string[] {
+  return localeFiles.map(({ locale, filename }) => {
+    const fileUrl = resolveSiteUrl(filename, baseUrl);
+    return `- [${getLocaleDisplayName(locale)}](${fileUrl})${notesSeparator}${locale}`;
+  });
+}
+
+function createChunkLinks(fullFileChunks: FullFileChunk[], baseUrl: string, notesSeparator = " - "): string[] {
+  return fullFileChunks.map((chunk, index) => {
+    const chunkUrl = resolveSiteUrl(chunk.filename, baseUrl);
+    const firstTitle = chunk.pageTitles[0];
+    const lastTitle = chunk.pageTitles[chunk.pageTitles.length - 1];
+    const pageRange = firstTitle === lastTitle ? firstTitle : `${firstTitle} to ${lastTitle}`;
+    return `- [Full content, part ${index + 1}](${chunkUrl})${notesSeparator}${pageRange}`;
+  });
+}
+
+function createPageMarkdown(page: PageData): string {
+  const parts = [`# ${page.title}`];
+  if (page.description) {
+    parts.push(`> ${page.description}`);
+  }
+  parts.push("", page.content || "");
+  return parts.join("\n").trim();
+}
+
+function normalizeTransformResult(result: TransformPageResult, originalPage: PageData): PageData[] {
+  if (result === null) return [];
+  if (result === undefined) return [originalPage];
+  return Array.isArray(result) ? result : [result];
+}
+
+interface PageGroup {
+  title?: string;
+  description?: string;
+  pages: PageData[];
+}
+
+/**
+ * Group pages by the configured sections, in section order.
+ * Falls back to grouping by parent directory when no sections are configured.
+ */
+function groupPagesIntoSections(pages: PageData[], sections: LlmsSection[]): PageGroup[] {
+  if (sections.length === 0) {
+    return Object.entries(groupPagesByDirectory(pages)).map(([directoryName, directoryPages]) => ({
+      title: directoryName === "/" ? undefined : directoryName,
+      pages: directoryPages
+    }));
+  }
+
+  const groups: PageGroup[] = sections.map((section) => ({
+    title: section.title,
+    description: section.description,
+    pages: []
+  }));
+  const otherPages: PageData[] = [];
+
+  for (const page of pages) {
+    const sectionIndex = sections.findIndex((section) => matchesPatterns(page.pathname, section.patterns));
+    if (sectionIndex === -1) {
+      otherPages.push(page);
+    } else {
+      groups[sectionIndex].pages.push(page);
+    }
+  }
+
+  if (otherPages.length > 0) {
+    groups.push({ title: "Other", pages: otherPages });
+  }
+
+  return groups.filter((group) => group.pages.length > 0);
 }
 
 function groupPagesByDirectory(pages: PageData[]): Record<string, PageData[]> {
@@ -352,83 +1375,269 @@ function groupPagesByDirectory(pages: PageData[]): Record<string, PageData[]> {
   return groups;
 }
 
-function extractTitleFromDocument(document: Document, pathname: string): string {
-  const h1Element = document.querySelector("h1");
-  const titleElement = document.querySelector("title");
+interface PageSelectors {
+  contentSelector?: string;
+  ignoreSelectors: string[];
+  titleSelector?: string;
+}
+
+const defaultIgnoreSelectors = ['header', 'footer', 'nav', '.no-llms', '[data-llms="exclude"]', 'script', 'style'];
+
+/**
+ * Resolve content, ignore and title selectors for a route, applying matching overrides in order
+ */
+function resolvePageSelectors(pathname: string, config: Required<LlmsConfig>): PageSelectors {
+  const selectors: PageSelectors = {
+    contentSelector: config.contentSelector || undefined,
+    ignoreSelectors: [...defaultIgnoreSelectors, ...config.ignoreSelectors],
+    titleSelector: config.titleSelector || undefined
+  };
+
+  for (const override of config.selectorOverrides) {
+    if (!matchesPatterns(pathname, override.patterns)) continue;
+
+    selectors.contentSelector = override.contentSelector || selectors.contentSelector;
+    selectors.ignoreSelectors.push(...(override.ignoreSelectors || []));
+    selectors.titleSelector = override.titleSelector || selectors.titleSelector;
+  }
+
+  return selectors;
+}
+
+/**
+ * What extraction falls back to when a selector matches nothing
+ */
+const selectorFallbacks: Record<UnmatchedSelector["option"], string> = {
+  contentSelector: "main or body",
+  titleSelector: "h1 or title"
+};
+
+function findUnmatchedSelectors(tree: Root, selectors: PageSelectors): UnmatchedSelector[] {
+  const unmatchedSelectors: UnmatchedSelector[] = [];
+  if (selectors.contentSelector && !selectElement(selectors.contentSelector, tree)) {
+    unmatchedSelectors.push({ option: "contentSelector", selector: selectors.contentSelector });
+  }
+  if (selectors.titleSelector && !selectElement(selectors.titleSelector, tree)) {
+    unmatchedSelectors.push({ option: "titleSelector", selector: selectors.titleSelector });
+  }
+  return unmatchedSelectors;
+}
+
+
+function extractTitleFromDocument(tree: Root, pathname: string, selectors: PageSelectors): string {
+  const customTitleElement = selectors.titleSelector ? selectElement(selectors.titleSelector, tree) : undefined;
+  const h1Element = selectElement("h1", tree);
+  const titleElement = selectElement("title", tree);
   
-  return h1Element?.textContent?.trim() || 
-         titleElement?.textContent?.trim() || 
+  return getTextContent(customTitleElement).trim() ||
+         getTextContent(h1Element).trim() || 
+         getTextContent(titleElement).trim() || 
          pathname.split("/").filter(Boolean).pop() || 
          "Untitled";
 }
 
-function extractMetaDescription(document: Document): string | undefined {
-  return document
-    .querySelector('meta[name="description"]')
-    ?.getAttribute("content")
-    ?.trim();
+/**
+ * Pages opt out with <meta name="robots" content="noai"> or <meta name="llms:exclude">
+ */
+function isPageOptedOut(tree: Root): boolean {
+  const robots = getAttribute(selectElement('meta[name="robots"]', tree), "content") || "";
+  if (robots.toLowerCase().split(/[\s,]+/).includes("noai")) return true;
+
+  const llmsExclude = selectElement('meta[name="llms:exclude"]', tree);
+  return llmsExclude !== undefined && getAttribute(llmsExclude, "content")?.trim().toLowerCase() !== "false";
+}
+
+/**
+ * Text of the element marked data-llms="summary", which replaces the meta description in llms files
+ */
+function extractSummary(tree: Root): string | undefined {
+  const summary = getTextContent(selectElement('[data-llms="summary"]', tree)).replace(/\s+/g, " ").trim();
+  return summary || undefined;
+}
+
+function extractMetaDescription(tree: Root): string | undefined {
+  return getAttribute(selectElement('meta[name="description"]', tree), "content")?.trim();
+}
+
+/**
+ * Extract explicit page order from <meta name="llms:order"> or a data-llms-order attribute
+ */
+function extractOrderFromDocument(tree: Root): number | undefined {
+  const orderValue = getAttribute(selectElement('meta[name="llms:order"]', tree), "content") ??
+    getAttribute(selectElement("[data-llms-order]", tree), "data-llms-order");
+
+  if (orderValue === undefined || orderValue.trim() === "") return undefined;
+
+  const order = Number(orderValue);
+  return Number.isFinite(order) ? order : undefined;
 }
 
 /**
  * Extract language from document
  * Tries to get language from html lang attribute, then from meta tags
  */
-function extractLanguageFromDocument(document: Document): string | undefined {
+function extractLanguageFromDocument(tree: Root): string | undefined {
   // Try to get language from html lang attribute
-  const htmlElement = document.documentElement;
-  let lang = htmlElement.getAttribute('lang');
+  const lang = getAttribute(selectElement("html", tree), "lang");
   
   if (lang) {
-    // Extract only the language code (e.g., 'en' from 'en-US')
-    return lang.split('-')[0].toLowerCase();
+    // Keep the full tag (e.g., 'pt-BR'), canonicalized
+    return normalizeLanguageTag(lang);
   }
   
   // Try to get language from meta tags
-  const metaLang = document
-    .querySelector('meta[http-equiv="content-language"]')
-    ?.getAttribute("content");
+  const metaLang = getAttribute(selectElement('meta[http-equiv="content-language"]', tree), "content");
     
   if (metaLang) {
-    // Extract only the language code
-    return metaLang.split('-')[0].toLowerCase();
+    return normalizeLanguageTag(metaLang.split(',')[0]);
   }
   
   return undefined;
 }
 
-async function extractMainContentAsMarkdown(document: Document): Promise<string> {
-  const mainElement = document.querySelector("main") || document.querySelector("body");
+function getMarkdownOptions(config: Required<LlmsConfig>): SimpleMarkdownOptions {
+  return {
+    tableMode: config.tableMode,
+    imagePolicy: config.imagePolicy,
+    keepSelectors: config.keepSelectors,
+    componentAdapters: config.componentAdapters
+  };
+}
+
+async function extractMainContentAsMarkdown(
+  tree: Root,
+  selectors: PageSelectors,
+  markdownOptions: SimpleMarkdownOptions
+): Promise<string> {
+  const sourceElement = (selectors.contentSelector && selectElement(selectors.contentSelector, tree)) ||
+                        selectElement("main", tree) ||
+                        selectElement("body", tree);
   
-  if (!mainElement) return "";
+  if (!sourceElement) return "";
+
+  // Elements marked data-llms="only" replace the rest of the content; nested ones come with their parent
+  const onlyElements = selectElements('[data-llms="only"]', sourceElement);
+  const contentElements = onlyElements.length > 0
+    ? onlyElements.filter((element) => !onlyElements.some((other) => other !== element &&
+        selectElements('[data-llms="only"]', other).includes(element)))
+    : sourceElement.children;
+
+  // Work on a copy so the tree stays intact for the transformPage hook
+  const contentRoot: Root = { type: "root", children: structuredClone(contentElements) };
   
   // Remove title to avoid duplication
-  const h1Element = mainElement.querySelector("h1");
-  if (h1Element) h1Element.remove();
+  const titleElement = (selectors.titleSelector && selectElement(selectors.titleSelector, contentRoot)) ||
+                       selectElement("h1", contentRoot);
+  if (titleElement) remove(contentRoot, { cascade: false }, (node) => node === titleElement);
   
   return await SimpleMarkdown(
-    mainElement.innerHTML.trim(),
-    ['header', 'footer', 'nav', '.no-llms', 'script', 'style'],
-    false
+    contentRoot,
+    selectors.ignoreSelectors,
+    markdownOptions
   );
 }
 
-function getHtmlFilePath(pathname: string, distDirectory: string): string {
-  if (pathname.endsWith("/")) {
-    return path.join(distDirectory, pathname, "index.html");
+function getPageUrl(page: PageData, baseUrl: string, linkToMarkdown = false): string {
+  const pathname = linkToMarkdown ? getMarkdownMirrorPath(page.pathname) : page.pathname;
+  return resolveSiteUrl(pathname, baseUrl);
+}
+
+/**
+ * Drop or flag links to pages that were built but left out of the llms files
+ */
+function applyExcludedLinkPolicy(
+  pages: PageData[],
+  candidatePathnames: string[],
+  astroConfig: LlmsAstroSettings,
+  config: Required<LlmsConfig>,
+  logger: LlmsLogger
+): void {
+  if (config.excludedLinks === "keep") return;
+
+  const includedPathnames = new Set(pages.map((page) => normalizePathnameForMatching(page.pathname)));
+  const excludedUrls = candidatePathnames
+    .filter((pathname) => !includedPathnames.has(normalizePathnameForMatching(pathname)))
+    .map((pathname) => getPageUrlFromPathname(pathname, astroConfig));
+  const rewrittenLinks = rewriteExcludedLinks(pages, excludedUrls, config.excludedLinks);
+  if (rewrittenLinks > 0) {
+    logger.debug(`${config.excludedLinks === "drop" ? "Dropped" : "Flagged"} ${rewrittenLinks} link(s) to excluded pages`);
+  }
+}
+
+function getMarkdownMirrorPath(pathname: string): string {
+  if (pathname === "" || pathname.endsWith("/")) {
+    return `${pathname}index.html.md`;
   }
-  
-  const htmlFilePath = path.join(distDirectory, pathname + ".html");
-  const indexFilePath = path.join(distDirectory, pathname, "index.html");
-  
-  return pathname.includes(".") ? htmlFilePath : indexFilePath;
+  return `${pathname}.md`;
 }
 
-function createCacheKey(astroConfig: AstroConfig, userConfig: LlmsConfig): string {
-  return JSON.stringify({ astroConfig: astroConfig.site, userConfig });
+/**
+ * Options that change what is extracted from a page's HTML; only these invalidate the page cache
+ */
+const extractionOptionKeys = [
+  "contentSelector",
+  "ignoreSelectors",
+  "titleSelector",
+  "selectorOverrides",
+  "tableMode",
+  "imagePolicy",
+  "keepSelectors",
+  "componentAdapters",
+  "transformPage"
+] as const satisfies readonly (keyof LlmsConfig)[];
+
+const functionIds = new WeakMap<Function, number>();
+let functionCount = 0;
+
+/**
+ * Key a function by identity, since closures with the same source can capture different values
+ */
+function getFunctionKey(fn: Function): string {
+  if (!functionIds.has(fn)) functionIds.set(fn, functionCount++);
+  return `function#${functionIds.get(fn)}`;
 }
 
-function sortPagesByPathname(pages: PageData[]): PageData[] {
-  return pages.sort((a, b) => a.pathname.localeCompare(b.pathname));
+/**
+ * Key of the resolved config in memory
+ */
+function createConfigCacheKey(astroConfig: LlmsAstroSettings, userConfig: LlmsConfig): string {
+  const { site, base, trailingSlash } = astroConfig;
+  return serializeForKey({ astroConfig: { site, base, trailingSlash }, userConfig });
+}
+
+/**
+ * Fingerprint of the page cache, which outlives the build. Functions are compared by source,
+ * the only identity that survives between builds.
+ *
+ * @internal
+ */
+export function createPageCacheFingerprint(astroConfig: LlmsAstroSettings, userConfig: LlmsConfig): string {
+  // Links in converted pages are resolved against site, base and trailingSlash
+  const { site, base, trailingSlash } = astroConfig;
+  const extractionOptions = Object.fromEntries(extractionOptionKeys.map((key) => [key, userConfig[key]]));
+  return serializeForKey({ astroConfig: { site, base, trailingSlash }, extractionOptions }, String);
+}
+
+function serializeForKey(value: unknown, serializeFunction: (fn: Function) => string = getFunctionKey): string {
+  // Regexes and predicates would otherwise serialize to {} or be dropped
+  return JSON.stringify(value ?? null, (_key, nested) => {
+    if (nested instanceof RegExp) return String(nested);
+    return typeof nested === "function" ? serializeFunction(nested) : nested;
+  });
+}
+
+/**
+ * Sort by explicit order first (unordered pages last), then alphabetically by pathname
+ */
+function sortPagesByOrder(pages: PageData[]): PageData[] {
+  return pages.sort((a, b) => {
+    if (a.order !== b.order) {
+      if (a.order === undefined) return 1;
+      if (b.order === undefined) return -1;
+      return a.order - b.order;
+    }
+    return a.pathname.localeCompare(b.pathname);
+  });
 }
 
 async function extractPackageDescription(): Promise<string> {
@@ -0,0 +1,131 @@
+import GithubSlugger from "github-slugger";
+import type { PageData } from "./index";
+import { extractHeadingOutline } from "./outline";
+
+/**
+ * What happens to links pointing at pages left out of the llms files
+ */
+export type ExcludedLinkPolicy = "keep" | "drop" | "flag";
+
+/**
+ * Stand-in origin for resolving links when site is not set; stripped again afterwards
+ */
+const placeholderOrigin = "http://llms.invalid";
+
+// [text](url) or [text](url "title"), but not images
+const markdownLinkPattern = /(?<!!)\[((?:[^\]\\]|\\.)*)\]\(([^)\s]+)((?:\s+"[^"]*")?)\)/g;
+
+/**
+ * Resolve a link href against the URL of the page it appears on.
+ * Absolute URLs, mailto: and other schemes are kept; root-relative page URLs give root-relative links.
+ */
+export function resolveHref(href: string, pageUrl: string): string {
+  if (/^[a-z][a-z\d+.-]*:/i.test(href) || href.startsWith("//")) return href;
+
+  const isAbsolutePage = /^[a-z][a-z\d+.-]*:/i.test(pageUrl);
+  try {
+    const resolved = new URL(href, isAbsolutePage ? pageUrl : new URL(pageUrl, placeholderOrigin));
+    return isAbsolutePage ? resolved.toString() : resolved.toString().slice(placeholderOrigin.length);
+  } catch {
+    return href;
+  }
+}
+
+/**
+ * Resolve the links of authored Markdown against the URL of its page, as HTML conversion does for
+ * the links it finds. Fenced code blocks are left as written.
+ */
+export function resolveMarkdownLinks(markdown: string, pageUrl: string): string {
+  let insideFence = false;
+  return markdown
+    .split("\n")
+    .map((line) => {
+      if (/^\s*(```|~~~)/.test(line)) {
+        insideFence = !insideFence;
+        return line;
+      }
+      if (insideFence) return line;
+
+      return line.replace(markdownLinkPattern, (_link, text: string, url: string, title: string) =>
+        `[${text}](${resolveHref(url, pageUrl)}${title})`);
+    })
+    .join("\n");
+}
+
+/**
+ * Map page URLs, with and without heading fragments, to the anchors they get in one llms-full.txt.
+ * Slugs are de-duplicated across the whole file, in the order headings appear in it.
+ */
+export function createInFileAnchors(
+  fileTitle: string,
+  pages: PageData[],
+  getPageUrl: (page: PageData) => string
+): Map<string, string> {
+  const slugger = new GithubSlugger();
+  const anchors = new Map<string, string>();
+  slugger.slug(fileTitle);
+
+  for (const page of pages) {
+    if (!page.content) continue;
+
+    const pageKey = createLinkKey(getPageUrl(page));
+    anchors.set(pageKey, `#${slugger.slug(page.title)}`);
+    for (const heading of extractHeadingOutline(page.content)) {
+      anchors.set(`${pageKey}#${heading.slug}`, `#${slugger.slug(heading.text)}`);
+    }
+  }
+
+  return anchors;
+}
+
+/**
+ * Point links at pages in the same file to their in-file anchors
+ */
+export function rewriteInFileLinks(markdown: string, anchors: Map<string, string>): string {
+  if (anchors.size === 0) return markdown;
+
+  return markdown.replace(markdownLinkPattern, (link, text: string, url: string, title: string) => {
+    const anchor = anchors.get(createLinkKey(url));
+    return anchor ? `[${text}](${anchor}${title})` : link;
+  });
+}
+
+/**
+ * Drop or flag links to excluded pages in every page's Markdown, in place.
+ * Returns the number of links changed.
+ */
+export function rewriteExcludedLinks(pages: PageData[], excludedUrls: string[], policy: ExcludedLinkPolicy): number {
+  if (policy === "keep" || excludedUrls.length === 0) return 0;
+
+  const excludedKeys = new Set(excludedUrls.map(createLinkKey));
+  let rewrittenLinks = 0;
+  for (const page of pages) {
+    if (!page.content) continue;
+
+    page.content = page.content.replace(markdownLinkPattern, (link, text: string, url: string) => {
+      if (!excludedKeys.has(createLinkKey(url).split("#")[0])) return link;
+
+      rewrittenLinks++;
+      return policy === "drop" ? text : `${link} (not included)`;
+    });
+  }
+  return rewrittenLinks;
+}
+
+/**
+ * Compare links regardless of the trailing slash of their path
+ */
+function createLinkKey(url: string): string {
+  const hashIndex = url.indexOf("#");
+  const target = hashIndex === -1 ? url : url.slice(0, hashIndex);
+  const fragment = hashIndex === -1 ? "" : safeDecodeURIComponent(url.slice(hashIndex));
+  return target.replace(/\/+$/, "") + (fragment === "#" ? "" : fragment);
+}
+
+function safeDecodeURIComponent(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
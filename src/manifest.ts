@@ -0,0 +1,79 @@
+import { createHash } from "crypto";
+import type { PageData } from "./index";
+import type { PageHeading } from "./outline";
+
+/**
+ * One page in llms.json and one line in llms.jsonl.
+ * Described by manifest.schema.json; bump manifestVersion on breaking changes.
+ */
+export interface LlmsManifestPage {
+  pathname: string;
+  url: string; // Absolute when site is set
+  title: string;
+  description?: string;
+  lang?: string;
+  order?: number;
+  headings: PageHeading[];
+  wordCount: number;
+  tokenCount: number; // Estimated with the tokenEstimator option
+  contentHash: string; // "sha256-" followed by the hex digest of content
+  content: string; // Markdown body, without the title
+}
+
+export interface LlmsManifest {
+  version: typeof manifestVersion;
+  title: string;
+  description: string;
+  site?: string;
+  pages: LlmsManifestPage[];
+}
+
+export const manifestVersion = 1;
+
+export function createManifestPage(
+  page: PageData,
+  url: string,
+  estimateTokens: (text: string) => number
+): LlmsManifestPage {
+  const content = page.content || "";
+  return {
+    pathname: page.pathname,
+    url,
+    title: page.title,
+    description: page.description,
+    lang: page.lang,
+    order: page.order,
+    headings: page.headings || [],
+    wordCount: content.split(/\s+/).filter(Boolean).length,
+    tokenCount: estimateTokens(content),
+    contentHash: `sha256-${createHash("sha256").update(content).digest("hex")}`,
+    content
+  };
+}
+
+/**
+ * Render llms.json lazily, one page at a time
+ */
+export function* createJsonManifestParts(
+  header: Omit<LlmsManifest, "pages">,
+  pages: Iterable<LlmsManifestPage>
+): Generator<string> {
+  // The header is serialized with an empty page list that is then filled in page by page
+  yield JSON.stringify({ ...header, pages: [] }).slice(0, -2);
+
+  let isFirstPage = true;
+  for (const page of pages) {
+    yield (isFirstPage ? "" : ",") + JSON.stringify(page);
+    isFirstPage = false;
+  }
+  yield "]}\n";
+}
+
+/**
+ * Render llms.jsonl lazily, one page per line
+ */
+export function* createJsonLinesManifestParts(pages: Iterable<LlmsManifestPage>): Generator<string> {
+  for (const page of pages) {
+    yield `${JSON.stringify(page)}\n`;
+  }
+}
@@ -0,0 +1,44 @@
+import GithubSlugger from "github-slugger";
+
+export interface PageHeading {
+  depth: number; // 2-6, the page title is the implicit h1
+  text: string;
+  slug: string; // Anchor id, generated the same way Astro does
+}
+
+/**
+ * Extract the h2-h6 outline from Markdown, skipping fenced code blocks.
+ * Slugs are de-duplicated per page like Astro's heading ids.
+ */
+export function extractHeadingOutline(markdown: string): PageHeading[] {
+  const slugger = new GithubSlugger();
+  const headings: PageHeading[] = [];
+  let insideFence = false;
+
+  for (const line of markdown.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      insideFence = !insideFence;
+      continue;
+    }
+    if (insideFence) continue;
+
+    const headingMatch = line.match(/^(#{2,6})\s+(.+?)\s*#*\s*$/);
+    if (!headingMatch) continue;
+
+    const text = stripInlineMarkdown(headingMatch[2]);
+    if (!text) continue;
+
+    headings.push({ depth: headingMatch[1].length, text, slug: slugger.slug(text) });
+  }
+
+  return headings;
+}
+
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/`([^`]*)`/g, "$1")
+    .replace(/(\*\*|__|\*|_|~~)(.+?)\1/g, "$2")
+    .replace(/\\([\\`*_{}[\]()#+\-.!])/g, "$1")
+    .trim();
+}
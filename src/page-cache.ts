@@ -0,0 +1,105 @@
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import type { PageExtraction } from "./index";
+
+export interface PageCacheStats {
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Converted pages from previous builds, keyed by pathname and HTML content hash
+ */
+export interface PageCache {
+  createKey(pathname: string, htmlContent: string): string;
+  get(key: string): PageExtraction | undefined;
+  set(key: string, extraction: PageExtraction): void;
+  save(): Promise<void>;
+  stats: PageCacheStats;
+}
+
+interface PageCacheFile {
+  version: number;
+  fingerprint: string; // Hash of the pipeline options and integration version
+  entries: Record<string, PageExtraction>;
+}
+
+// Bump when PageData or the cache file layout changes
+const cacheFormatVersion = 2;
+const cacheFilename = "astro-llms-generate/pages.json";
+
+/**
+ * Load the page cache from Astro's cache directory (node_modules/.astro by default).
+ * The whole cache is discarded when the options fingerprint or the integration version changes.
+ *
+ * @param cacheDirectory - Absolute path of the Astro cacheDir
+ * @param optionsFingerprint - Serialized options that affect conversion
+ */
+export async function loadPageCache(cacheDirectory: string, optionsFingerprint: string): Promise<PageCache> {
+  const cacheFilePath = path.join(cacheDirectory, cacheFilename);
+  const fingerprint = hash(`${await readIntegrationVersion()}\0${optionsFingerprint}`);
+  const previousEntries = await readCacheEntries(cacheFilePath, fingerprint);
+
+  // Only entries used by this build are saved, so removed pages drop out of the cache
+  const currentEntries: Record<string, PageExtraction> = {};
+  const stats: PageCacheStats = { hits: 0, misses: 0 };
+
+  return {
+    createKey: (pathname, htmlContent) => hash(`${pathname}\0${htmlContent}`),
+    get: (key) => {
+      const cachedExtraction = previousEntries[key];
+      if (!cachedExtraction) {
+        stats.misses++;
+        return undefined;
+      }
+      stats.hits++;
+      currentEntries[key] = cachedExtraction;
+      return cachedExtraction;
+    },
+    set: (key, extraction) => {
+      currentEntries[key] = extraction;
+    },
+    save: async () => {
+      const cacheFile: PageCacheFile = { version: cacheFormatVersion, fingerprint, entries: currentEntries };
+      const temporaryFilePath = `${cacheFilePath}.${process.pid}.tmp`;
+      await fs.mkdir(path.dirname(cacheFilePath), { recursive: true });
+      await fs.writeFile(temporaryFilePath, JSON.stringify(cacheFile), "utf-8");
+      await fs.rename(temporaryFilePath, cacheFilePath);
+    },
+    stats
+  };
+}
+
+/**
+ * Format cache statistics as a single build log line
+ */
+export function formatPageCacheStats(stats: PageCacheStats): string {
+  const total = stats.hits + stats.misses;
+  const hitRate = total > 0 ? Math.round((stats.hits / total) * 100) : 0;
+  return `Page cache: ${stats.hits} hits, ${stats.misses} misses (${hitRate}% reused)`;
+}
+
+async function readCacheEntries(cacheFilePath: string, fingerprint: string): Promise<Record<string, PageExtraction>> {
+  try {
+    const cacheFile = JSON.parse(await fs.readFile(cacheFilePath, "utf-8")) as PageCacheFile;
+    if (cacheFile.version !== cacheFormatVersion || cacheFile.fingerprint !== fingerprint) return {};
+    return cacheFile.entries || {};
+  } catch {
+    // Missing or corrupt cache files start from scratch
+    return {};
+  }
+}
+
+async function readIntegrationVersion(): Promise<string> {
+  try {
+    const packageContent = await fs.readFile(new URL("../package.json", import.meta.url), "utf-8");
+    return JSON.parse(packageContent).version || "";
+  } catch {
+    return "";
+  }
+}
+
+function hash(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
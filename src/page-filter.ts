@@ -0,0 +1,229 @@
+/**
+ * A page pattern can be a glob string (prefix with "!" to negate),
+ * a regular expression, or a predicate receiving the normalized pathname
+ */
+export type PagePattern = string | RegExp | ((pathname: string) => boolean);
+
+export interface PageFilterDecision {
+  pathname: string;
+  included: boolean;
+  reason: string;
+}
+
+export interface PageFilterReport {
+  included: number;
+  excluded: number;
+  reasons: Record<string, number>;
+  decisions: PageFilterDecision[];
+}
+
+const globCache = new Map<string, RegExp>();
+
+/**
+ * Normalize a route pathname for matching: no leading or trailing slash,
+ * so "/docs/intro/" and "docs/intro" both become "docs/intro"
+ */
+export function normalizePathnameForMatching(pathname: string): string {
+  return pathname.replace(/^\/+/, "").replace(/\/+$/, "");
+}
+
+/**
+ * Convert a glob into a regular expression.
+ * Supports `**`, `*`, `?`, `[...]` character classes and `{a,b}` alternation.
+ * An unclosed `{` or `[`, or an invalid class such as `[z-a]`, matches literally instead of failing.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const cached = globCache.get(glob);
+  if (cached) return cached;
+
+  const source = normalizePathnameForMatching(glob);
+  let regex = "";
+  let braceDepth = 0;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (char === "*") {
+      if (source[i + 1] === "*") {
+        const atSegmentStart = i === 0 || source[i - 1] === "/";
+        const nextIndex = i + 2;
+        if (atSegmentStart && source[nextIndex] === "/") {
+          // "**/" matches zero or more leading directories
+          regex += "(?:.*/)?";
+          i = nextIndex;
+        } else if (atSegmentStart && nextIndex === source.length) {
+          // trailing "/**" also matches the directory itself
+          if (regex.endsWith("/")) {
+            regex = regex.slice(0, -1) + "(?:/.*)?";
+          } else {
+            regex += ".*";
+          }
+          i = nextIndex - 1;
+        } else {
+          regex += ".*";
+          i++;
+        }
+      } else {
+        regex += "[^/]*";
+      }
+    } else if (char === "?") {
+      regex += "[^/]";
+    } else if (char === "[") {
+      const closingIndex = source.indexOf("]", i + 1);
+      const body = closingIndex === -1 ? "" : source.slice(i + 1, closingIndex).replace(/^!/, "^").replace(/\\/g, "\\\\");
+      if (closingIndex === -1 || !isValidRegExp(`[${body}]`)) {
+        regex += "\\[";
+      } else {
+        regex += `[${body}]`;
+        i = closingIndex;
+      }
+    } else if (char === "{" && !hasClosingBrace(source, i)) {
+      regex += "\\{";
+    } else if (char === "{") {
+      braceDepth++;
+      regex += "(?:";
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth--;
+      regex += ")";
+    } else if (char === "," && braceDepth > 0) {
+      regex += "|";
+    } else {
+      regex += char.replace(/[.+^${}()|\\\]]/g, "\\$&");
+    }
+  }
+
+  const compiled = new RegExp(`^${regex}$`);
+  globCache.set(glob, compiled);
+  return compiled;
+}
+
+/**
+ * Whether the brace at openIndex is closed later in the glob, counting nested braces
+ */
+function hasClosingBrace(source: string, openIndex: number): boolean {
+  let depth = 0;
+  for (let i = openIndex; i < source.length; i++) {
+    if (source[i] === "{") depth++;
+    if (source[i] === "}" && --depth === 0) return true;
+  }
+  return false;
+}
+
+function isValidRegExp(source: string): boolean {
+  try {
+    new RegExp(source);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a single pattern against a pathname, ignoring glob negation
+ */
+function testPattern(pattern: PagePattern, pathname: string): boolean {
+  const normalized = normalizePathnameForMatching(pathname);
+
+  if (typeof pattern === "function") {
+    return pattern(normalized);
+  }
+
+  if (pattern instanceof RegExp) {
+    pattern.lastIndex = 0;
+    return pattern.test(normalized) || pattern.test(`/${normalized}`);
+  }
+
+  const glob = pattern.startsWith("!") ? pattern.slice(1) : pattern;
+  return globToRegExp(glob).test(normalized);
+}
+
+/**
+ * Resolve a pattern list gitignore-style: the last matching pattern wins,
+ * and a matching "!"-prefixed glob cancels earlier matches.
+ * Returns the pattern that decided the match, or undefined.
+ */
+export function findMatchingPattern(
+  pathname: string,
+  patterns: PagePattern[]
+): PagePattern | undefined {
+  let matchedPattern: PagePattern | undefined;
+
+  for (const pattern of patterns) {
+    if (!testPattern(pattern, pathname)) continue;
+
+    const isNegation = typeof pattern === "string" && pattern.startsWith("!");
+    matchedPattern = isNegation ? undefined : pattern;
+  }
+
+  return matchedPattern;
+}
+
+/**
+ * Check whether a pathname is matched by a pattern list
+ */
+export function matchesPatterns(pathname: string, patterns: PagePattern[]): boolean {
+  return findMatchingPattern(pathname, patterns) !== undefined;
+}
+
+/**
+ * Apply include/exclude patterns to a list of routes, keeping a report of every decision
+ */
+export function filterPagesByPatterns<T extends { pathname: string }>(
+  pages: T[],
+  includePatterns: PagePattern[],
+  excludePatterns: PagePattern[]
+): { pages: T[]; report: PageFilterReport } {
+  const includedPages: T[] = [];
+  const report: PageFilterReport = { included: 0, excluded: 0, reasons: {}, decisions: [] };
+
+  for (const page of pages) {
+    const decision = decidePage(page.pathname, includePatterns, excludePatterns);
+    report.decisions.push(decision);
+
+    if (decision.included) {
+      report.included++;
+      includedPages.push(page);
+    } else {
+      report.excluded++;
+      report.reasons[decision.reason] = (report.reasons[decision.reason] || 0) + 1;
+    }
+  }
+
+  return { pages: includedPages, report };
+}
+
+/**
+ * Format a filter report as a single build log line
+ */
+export function formatPageFilterReport(report: PageFilterReport): string {
+  const summary = `Page filter: ${report.included} included, ${report.excluded} excluded`;
+  const reasonEntries = Object.entries(report.reasons).sort((a, b) => b[1] - a[1]);
+  if (reasonEntries.length === 0) return summary;
+
+  const reasonText = reasonEntries.map(([reason, count]) => `${count} ${reason}`).join(", ");
+  return `${summary} (${reasonText})`;
+}
+
+function decidePage(
+  pathname: string,
+  includePatterns: PagePattern[],
+  excludePatterns: PagePattern[]
+): PageFilterDecision {
+  if (includePatterns.length > 0 && !matchesPatterns(pathname, includePatterns)) {
+    return { pathname, included: false, reason: "not matched by includePatterns" };
+  }
+
+  const excludedBy = findMatchingPattern(pathname, excludePatterns);
+  if (excludedBy !== undefined) {
+    return { pathname, included: false, reason: `excluded by ${describePattern(excludedBy)}` };
+  }
+
+  return { pathname, included: true, reason: "included" };
+}
+
+function describePattern(pattern: PagePattern): string {
+  if (typeof pattern === "function") {
+    return pattern.name ? `predicate ${pattern.name}()` : "predicate";
+  }
+  return pattern instanceof RegExp ? `regex ${pattern}` : `"${pattern}"`;
+}
@@ -0,0 +1,24 @@
+import { parentPort, workerData } from "worker_threads";
+import { extractPageDataFromHtml, generateSmartDefaults } from "./index";
+import { reviveEndpointRuntime } from "./runtime-config";
+import type { PageConversionResult, PageConversionTask } from "./worker-pool";
+
+/**
+ * Worker thread entry: converts rendered HTML to page data.
+ * Loaded through Vite's module runner by the bootstrap in worker-pool.ts.
+ * The runtime carries the URL settings; workers never run transformPage, so no full config is needed.
+ */
+const runtime = reviveEndpointRuntime((workerData as { runtimeJson: string }).runtimeJson);
+const configPromise = generateSmartDefaults(runtime, runtime.userConfig, "");
+
+parentPort!.on("message", async (task: PageConversionTask) => {
+  let result: PageConversionResult;
+  try {
+    const config = await configPromise;
+    const extraction = await extractPageDataFromHtml(task.htmlContent, task.htmlFilePath, task.pathname, runtime, config);
+    result = { id: task.id, extraction };
+  } catch (error) {
+    result = { id: task.id, error: String(error) };
+  }
+  parentPort!.postMessage(result);
+});
@@ -0,0 +1,105 @@
+import GithubSlugger from "github-slugger";
+import type { PageData } from "./index";
+
+export interface RedactionRule {
+  name?: string; // Label in the build log, defaults to the pattern source
+  pattern: RegExp;
+  replacement?: string; // Defaults to "[REDACTED]"
+}
+
+export type RedactionPattern = RegExp | RedactionRule;
+
+export interface RedactionStats {
+  total: number;
+  pages: number; // Pages with at least one match
+  byRule: Record<string, number>;
+}
+
+/**
+ * Ready-made rules for common secrets; internal hostnames differ per site and need their own pattern
+ */
+export const redactionPresets = {
+  emails: {
+    name: "emails",
+    // Markdown output escapes the "@" of addresses it does not autolink
+    pattern: /\b[\w.%+-]+\\?@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}\b/gi
+  },
+  apiKeys: {
+    name: "apiKeys",
+    // OpenAI/Anthropic, AWS access keys, GitHub tokens, Slack tokens, Stripe secret keys
+    pattern: /\b(?:sk-[\w-]{20,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36,}|xox[abposr]-[\w-]{10,}|[rs]k_live_[A-Za-z0-9]{16,})\b/g
+  }
+} satisfies Record<string, RedactionRule>;
+
+// <https://…> and <user@example.com> autolinks, as the Markdown output writes them
+const autolinkPattern = /<(?:[a-z][a-z\d+.-]*:[^<>\s]*|[^<>\s@]+@[^<>\s]+)>/gi;
+
+/**
+ * Replace matches in the Markdown of every page, in place, before any llms file is rendered.
+ * Titles, descriptions and heading text are redacted too, since they are listed in llms.txt.
+ * Heading slugs are rebuilt from the redacted text, since they carry the text into anchors.
+ */
+export function redactPages(pages: PageData[], patterns: RedactionPattern[]): RedactionStats {
+  const stats: RedactionStats = { total: 0, pages: 0, byRule: {} };
+  if (patterns.length === 0) return stats;
+
+  const rules = patterns.map(normalizeRule);
+  for (const page of pages) {
+    const totalBefore = stats.total;
+    const redact = (text: string) => redactText(text, rules, stats);
+
+    page.title = redact(page.title);
+    if (page.description) page.description = redact(page.description);
+    if (page.content) page.content = redact(page.content);
+    let headingsChanged = false;
+    for (const heading of page.headings || []) {
+      const redactedText = redact(heading.text);
+      headingsChanged ||= redactedText !== heading.text;
+      heading.text = redactedText;
+    }
+    if (headingsChanged) {
+      const slugger = new GithubSlugger();
+      for (const heading of page.headings!) {
+        heading.slug = slugger.slug(heading.text);
+      }
+    }
+
+    if (stats.total > totalBefore) stats.pages++;
+  }
+
+  return stats;
+}
+
+export function formatRedactionStats(stats: RedactionStats): string {
+  if (stats.total === 0) return "Redaction: no matches";
+
+  const rules = Object.entries(stats.byRule).map(([name, count]) => `${count} ${name}`).join(", ");
+  return `Redaction: ${stats.total} matches on ${stats.pages} page(s) (${rules})`;
+}
+
+function normalizeRule(pattern: RedactionPattern): Required<RedactionRule> {
+  const rule = pattern instanceof RegExp ? { pattern } : pattern;
+  // Every occurrence must be replaced, whatever flags the pattern was written with
+  const flags = rule.pattern.flags.includes("g") ? rule.pattern.flags : `${rule.pattern.flags}g`;
+  return {
+    name: rule.name || String(rule.pattern),
+    pattern: new RegExp(rule.pattern.source, flags),
+    replacement: rule.replacement ?? "[REDACTED]"
+  };
+}
+
+function redactText(text: string, rules: Required<RedactionRule>[], stats: RedactionStats): string {
+  let redacted = text;
+  for (const rule of rules) {
+    const countMatch = () => {
+      stats.total++;
+      stats.byRule[rule.name] = (stats.byRule[rule.name] || 0) + 1;
+      return rule.replacement;
+    };
+    // An autolink with a match is replaced whole, since "<[REDACTED]>" is not a valid autolink
+    redacted = redacted
+      .replace(autolinkPattern, (autolink) => (autolink.search(rule.pattern) === -1 ? autolink : countMatch()))
+      .replace(rule.pattern, countMatch);
+  }
+  return redacted;
+}
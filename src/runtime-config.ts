@@ -0,0 +1,61 @@
+import type { LlmsConfig } from "./index";
+
+/**
+ * Everything the on-demand endpoint needs to know about the build,
+ * passed through a virtual module as JSON
+ */
+export interface EndpointRuntime {
+  userConfig: LlmsConfig; // Function-valued options are not available at runtime
+  site?: string;
+  base: string;
+  trailingSlash: "always" | "never" | "ignore";
+  pathnames: string[]; // Routes to render on each request
+}
+
+export const runtimeModuleId = "virtual:astro-llms-generate/runtime";
+
+/**
+ * Static asset listing prerendered pathnames, written at the end of the build
+ * because dynamic prerendered routes are unknown when the endpoint is bundled
+ */
+export const prerenderedRoutesFilename = "_llms-routes.json";
+
+/**
+ * Serialize the runtime to JSON, keeping regular expressions and dropping functions.
+ * Functions are removed from arrays too, where JSON would otherwise write null, e.g. predicate patterns.
+ */
+export function serializeEndpointRuntime(runtime: EndpointRuntime): string {
+  return JSON.stringify(runtime, (_key, value) => {
+    if (value instanceof RegExp) return { __regexp: [value.source, value.flags] };
+    if (Array.isArray(value)) return value.filter((item) => typeof item !== "function");
+    return typeof value === "function" ? undefined : value;
+  });
+}
+
+/**
+ * Restore regular expressions in a runtime produced by serializeEndpointRuntime
+ */
+export function reviveEndpointRuntime(json: string): EndpointRuntime {
+  return JSON.parse(json, (_key, value) => {
+    if (value && Array.isArray(value.__regexp)) return new RegExp(value.__regexp[0], value.__regexp[1]);
+    return value;
+  });
+}
+
+/**
+ * Names of function-valued options, which the endpoint cannot use
+ */
+export function findFunctionOptions(userConfig: LlmsConfig): string[] {
+  const functionOptions: string[] = [];
+  const visit = (value: unknown, keyPath: string) => {
+    if (typeof value === "function") {
+      functionOptions.push(keyPath);
+    } else if (value && typeof value === "object" && !(value instanceof RegExp)) {
+      for (const [key, child] of Object.entries(value)) {
+        visit(child, keyPath ? `${keyPath}.${key}` : key);
+      }
+    }
+  };
+  visit(userConfig, "");
+  return functionOptions;
+}
@@ -1,4 +1,5 @@
-import type { Element, RootContent, Root } from 'hast';
+import type { Element, ElementContent, RootContent, Root } from 'hast';
+import type { Node } from 'unist';
 import { matches, select, selectAll } from 'hast-util-select';
 import rehypeParse from 'rehype-parse';
 import rehypeRemark from 'rehype-remark';
@@ -6,11 +7,10 @@ import remarkGfm from 'remark-gfm';
 import remarkStringify from 'remark-stringify';
 import { unified } from 'unified';
 import { remove } from 'unist-util-remove';
-
-/**
- * Selectors for structure-only extraction
- */
-const structureSelectors = ['h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li'];
+import { applyComponentAdapters, starlightComponentAdapters, type ComponentAdapter } from './component-adapters';
+import { createCodeBlock, normalizeCodeBlock, restoreCodeMeta } from './code-blocks';
+import { parseHtmlDocument } from './html-document';
+import { resolveHref } from './links';
 
 /**
  * Selectors for elements to remove for LLMs.txt compatibility
@@ -32,21 +32,157 @@ const llmsExcludedSelectors = [
   '.media',        // Remove media containers
 ];
 
+/**
+ * How tables are converted: real GFM tables, pipe-joined text lines, or removed
+ */
+export type TableMode = 'gfm' | 'text' | 'drop';
+
+/**
+ * How images are handled: removed entirely, or kept as alt text, captions and diagram sources
+ */
+export type ImagePolicy = 'remove' | 'alt';
+
+export interface SimpleMarkdownOptions {
+  tableMode?: TableMode;
+  imagePolicy?: ImagePolicy;
+  keepSelectors?: string[]; // Elements exempt from the built-in media removal
+  pageUrl?: string; // URL of the converted page; relative links are resolved against it
+  componentAdapters?: ComponentAdapter[]; // Applied before the built-in Starlight adapters
+}
+
 interface ProcessingData extends Record<string, unknown> {
   ignoreSelectors: string[];
-  onlyStructure?: boolean;
+  tableMode?: TableMode;
+  imagePolicy?: ImagePolicy;
+  keepSelectors?: string[];
+  pageUrl?: string;
+  componentAdapters?: ComponentAdapter[];
 }
 
+/**
+ * Attributes that carry diagram source next to a rendered diagram, with the fence language to use
+ */
+const diagramSourceAttributes: Record<string, string> = {
+  dataMermaid: 'mermaid',
+  dataMermaidSource: 'mermaid',
+  dataPlantuml: 'plantuml',
+  dataPlantumlSource: 'plantuml',
+  dataDiagramSource: '',
+};
+
+/**
+ * Text that replaces images under the "alt" image policy
+ */
+const imageTextPrefix = '[Image: ';
+
+/**
+ * Placeholder for line breaks inside table cells, turned into <br> after conversion
+ */
+const tableCellBreak = '\uE000';
+
+/**
+ * Block-level elements that start a new line when flattened into a table cell
+ */
+const tableCellBlockTags = new Set([
+  'p', 'div', 'ul', 'ol', 'li', 'dl', 'dt', 'dd', 'blockquote', 'section',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6'
+]);
+
 const htmlToMarkdownPipeline = unified()
   .use(rehypeParse, { fragment: true })
 
+  // Turn Mermaid/PlantUML diagrams back into fenced source before media is removed
+  .use(function extractDiagramSources() {
+    return (tree: Root, file: any) => {
+      const data = file.data as ProcessingData;
+      if (data.imagePolicy === 'remove') return tree;
+
+      replaceElements(tree, (element) => {
+        for (const [attribute, language] of Object.entries(diagramSourceAttributes)) {
+          const source = element.properties?.[attribute];
+          if (typeof source === 'string' && source.trim()) {
+            return [createCodeBlock(source, language || String(element.properties.dataDiagramType || ''))];
+          }
+        }
+
+        // Unrendered client-side diagrams keep their source as text
+        const className = toClassList(element.properties?.className);
+        const language = ['mermaid', 'plantuml'].find((name) => className.includes(name));
+        if (language && (element.tagName === 'pre' || element.tagName === 'div') && !select('svg', element)) {
+          return [createCodeBlock(extractRawText(element), language)];
+        }
+        return undefined;
+      });
+      return tree;
+    };
+  })
+
+  // Turn tabs, asides, steps and cards into plain structure; user adapters take precedence
+  .use(function adaptComponents() {
+    return (tree: Root, file: any) => {
+      const data = file.data as ProcessingData;
+      applyComponentAdapters(tree, [...(data.componentAdapters || []), ...starlightComponentAdapters]);
+      return tree;
+    };
+  })
+
+  // Rebuild highlighted code blocks before their frames are taken for image figures
+  .use(function normalizeCodeBlocks() {
+    return (tree: Root) => {
+      replaceElements(tree, (element) => {
+        const codeBlock = normalizeCodeBlock(element);
+        return codeBlock ? [codeBlock] : undefined;
+      });
+      return tree;
+    };
+  })
+
+  // Convert images to alt text and keep figure captions for context
+  .use(function convertImageAltToText() {
+    return (tree: Root, file: any) => {
+      const data = file.data as ProcessingData;
+      if (data.imagePolicy === 'remove') return tree;
+
+      const convertImage = (element: Element): ElementContent[] | undefined => {
+        switch (element.tagName) {
+          case 'img':
+            return createImageText(String(element.properties?.alt || ''));
+          case 'svg': {
+            const label = element.properties?.ariaLabel || extractRawText(select('title', element) || { type: 'text', value: '' });
+            return createImageText(String(label || ''));
+          }
+          case 'picture': {
+            const image = select('img', element);
+            return createImageText(String(image?.properties?.alt || ''));
+          }
+          case 'figure': {
+            // Unwrap so the caption and converted images survive media removal
+            const wrapper: Element = { type: 'element', tagName: 'div', properties: {}, children: element.children };
+            replaceElements(wrapper, convertImage);
+            return [wrapper];
+          }
+          case 'figcaption':
+            return [{ type: 'element', tagName: 'p', properties: {}, children: element.children }];
+          default:
+            return undefined;
+        }
+      };
+
+      replaceElements(tree, convertImage);
+      return tree;
+    };
+  })
+
   // Remove images and media elements for LLMs.txt compatibility
   .use(function removeLlmsIncompatibleElements() {
-    return (tree: Root) => {
+    return (tree: Root, file: any) => {
+      const data = file.data as ProcessingData;
+      const keepSelectors = data.keepSelectors || [];
       for (const selector of llmsExcludedSelectors) {
         remove(tree, (node) => {
           const element = node as RootContent;
-          return matches(selector, element);
+          return matches(selector, element) &&
+                 !keepSelectors.some((keepSelector) => matches(keepSelector, element));
         });
       }
       return tree;
@@ -70,53 +206,19 @@ const htmlToMarkdownPipeline = unified()
     };
   })
 
-  // Keep only structure elements if requested
-  .use(function keepOnlyStructure() {
+  // Resolve relative links so they still work when the Markdown is read out of the page
+  .use(function resolveRelativeLinks() {
     return (tree: Root, file: any) => {
       const data = file.data as ProcessingData;
-      if (!data.onlyStructure) return tree;
-      
-      remove(tree, (node) => {
-        const element = node as RootContent;
-        return !structureSelectors.some(sel => matches(sel, element));
-      });
-      return tree;
-    };
-  })
+      if (!data.pageUrl) return tree;
 
-  // Improve code block handling
-  .use(function improveCodeBlockHandling() {
-    return (tree: Root) => {
-      const preElements = selectAll('pre', tree);
-      for (const pre of preElements) {
-        if (pre.type === 'element') {
-          const codeElement = select('code', pre);
-          if (codeElement && codeElement.type === 'element') {
-            // Preserve language information
-            if (pre.properties?.dataLanguage) {
-              if (!Array.isArray(codeElement.properties.className)) {
-                codeElement.properties.className = [];
-              }
-              (codeElement.properties.className as string[]).push(
-                `language-${pre.properties.dataLanguage}`
-              );
-            }
-          }
-        }
+      for (const link of selectAll('a[href]', tree)) {
+        link.properties.href = resolveHref(String(link.properties.href), data.pageUrl);
       }
       return tree;
     };
   })
 
-  // Convert images to alt text for context (simplified approach)
-  .use(function convertImageAltToText() {
-    return (tree: Root) => {
-      // This is handled by the removal function above
-      // Images will be removed and alt text can be preserved in cleanup
-      return tree;
-    };
-  })
-
   // Improve list handling
   .use(function improveListHandling() {
     return (tree: Root) => {
@@ -136,9 +238,25 @@ const htmlToMarkdownPipeline = unified()
     };
   })
 
-  // Clean up table handling for text-only output
+  // Prepare tables for the configured table mode
   .use(function improveTableHandling() {
-    return (tree: Root) => {
+    return (tree: Root, file: any) => {
+      const data = file.data as ProcessingData;
+      const tableMode = data.tableMode || 'gfm';
+
+      if (tableMode === 'drop') {
+        remove(tree, (node) => (node as Element).type === 'element' && (node as Element).tagName === 'table');
+        return tree;
+      }
+
+      if (tableMode === 'gfm') {
+        for (const cell of selectAll('td, th', tree)) {
+          prepareGfmTableCell(cell);
+        }
+        return tree;
+      }
+
+      // Text mode: collapse each row into pipe-joined text
       const tables = selectAll('table', tree);
       for (const table of tables) {
         if (table.type === 'element') {
@@ -163,13 +281,15 @@ const htmlToMarkdownPipeline = unified()
           }
           
           if (textRows.length > 0 && table.type === 'element') {
-            // Replace table with text content
+            // Replace table with text content, one paragraph per row
             const tableElement = table as Element;
             tableElement.tagName = 'div';
-            tableElement.children = [{
-              type: 'text',
-              value: textRows.join('\n')
-            }];
+            tableElement.children = textRows.map((rowText): Element => ({
+              type: 'element',
+              tagName: 'p',
+              properties: {},
+              children: [{ type: 'text', value: rowText }]
+            }));
             tableElement.properties = {};
           }
         }
@@ -179,6 +299,21 @@ const htmlToMarkdownPipeline = unified()
   })
 
   .use(rehypeRemark)
+
+  // Move code block titles and diff languages from the fence language to its meta
+  .use(function restoreCodeBlockMeta() {
+    return (tree: Node) => {
+      restoreCodeMeta(tree);
+    };
+  })
+
+  // Turn table cell line break placeholders into inline <br>
+  .use(function restoreTableCellLineBreaks() {
+    return (tree: Node) => {
+      visitTableCells(tree);
+    };
+  })
+
   .use(remarkGfm)
   .use(remarkStringify, {
     bullet: '-',
@@ -193,6 +328,135 @@ const htmlToMarkdownPipeline = unified()
     emphasis: '_'
   });
 
+/**
+ * Make a table cell safe for a single GFM table row: take alignment from
+ * inline styles and flatten block content, marking line breaks with a placeholder
+ */
+function prepareGfmTableCell(cell: Element): void {
+  const styleAlign = String(cell.properties?.style || '').match(/text-align:\s*(left|center|right)/i);
+  if (!cell.properties.align && styleAlign) {
+    cell.properties.align = styleAlign[1].toLowerCase();
+  }
+
+  const flattened = flattenCellContent(cell.children);
+  // Trim placeholders at the edges and collapse repeated ones
+  while (isCellBreak(flattened[0])) flattened.shift();
+  while (isCellBreak(flattened[flattened.length - 1])) flattened.pop();
+  cell.children = flattened.filter((node, index) => !(isCellBreak(node) && isCellBreak(flattened[index - 1])));
+}
+
+function flattenCellContent(nodes: ElementContent[]): ElementContent[] {
+  const result: ElementContent[] = [];
+  const pushBreak = () => result.push({ type: 'text', value: tableCellBreak });
+
+  for (const node of nodes) {
+    if (node.type !== 'element') {
+      result.push(node);
+    } else if (node.tagName === 'br') {
+      pushBreak();
+    } else if (node.tagName === 'pre') {
+      // Code blocks become inline code, one line per break
+      pushBreak();
+      result.push({
+        type: 'element',
+        tagName: 'code',
+        properties: {},
+        children: [{ type: 'text', value: extractRawText(node).replace(/\n+$/, '').replace(/\n/g, tableCellBreak) }]
+      });
+      pushBreak();
+    } else if (tableCellBlockTags.has(node.tagName)) {
+      pushBreak();
+      if (node.tagName === 'li') result.push({ type: 'text', value: '• ' });
+      result.push(...flattenCellContent(node.children));
+      pushBreak();
+    } else {
+      result.push({ ...node, children: flattenCellContent(node.children) });
+    }
+  }
+
+  return result;
+}
+
+function isCellBreak(node: ElementContent | undefined): boolean {
+  return node?.type === 'text' && node.value.trim() === tableCellBreak;
+}
+
+/**
+ * Walk mdast table cells and replace break placeholders with <br> html nodes
+ */
+function visitTableCells(node: any, insideCell = false): void {
+  if (!node.children) return;
+
+  const isCell = node.type === 'tableCell';
+  const children: any[] = [];
+
+  for (const child of node.children) {
+    const hasPlaceholder = (insideCell || isCell) &&
+      (child.type === 'text' || child.type === 'inlineCode') &&
+      child.value.includes(tableCellBreak);
+
+    if (!hasPlaceholder) {
+      visitTableCells(child, insideCell || isCell);
+      children.push(child);
+      continue;
+    }
+
+    child.value.split(tableCellBreak).forEach((part: string, index: number) => {
+      if (index > 0) children.push({ type: 'html', value: '<br>' });
+      if (part) children.push({ ...child, value: part });
+    });
+  }
+
+  node.children = children;
+}
+
+/**
+ * Replace elements depth-first. The replacer returns the nodes to put in place
+ * of an element (not visited again), or undefined to keep it and descend.
+ */
+function replaceElements(
+  parent: Root | Element,
+  replacer: (element: Element) => ElementContent[] | undefined
+): void {
+  const children: RootContent[] = [];
+
+  for (const child of parent.children) {
+    if (child.type !== 'element') {
+      children.push(child);
+      continue;
+    }
+
+    const replacement = replacer(child);
+    if (replacement) {
+      children.push(...replacement);
+    } else {
+      replaceElements(child, replacer);
+      children.push(child);
+    }
+  }
+
+  parent.children = children as Element['children'];
+}
+
+function createImageText(alt: string): ElementContent[] {
+  // Empty alt text marks decorative images
+  const text = alt.replace(/\s+/g, ' ').trim();
+  return text ? [{ type: 'text', value: `${imageTextPrefix}${text}]` }] : [];
+}
+
+function toClassList(className: unknown): string[] {
+  if (Array.isArray(className)) return className.map(String);
+  return typeof className === 'string' ? className.split(/\s+/) : [];
+}
+
+/**
+ * Extract raw text from a hast node, keeping whitespace as is
+ */
+function extractRawText(node: any): string {
+  if (node.type === 'text') return node.value || '';
+  return (node.children || []).map(extractRawText).join('');
+}
+
 /**
  * Extract text content from a hast element
  */
@@ -215,22 +479,33 @@ function extractTextFromElement(element: any): string {
 /**
  * Convert HTML content to clean, LLMs.txt-compatible Markdown
  * 
- * @param html - The HTML content to convert
+ * @param html - The HTML content to convert, or an already parsed hast tree (left unmodified)
  * @param ignoreSelectors - CSS selectors for elements to ignore
- * @param onlyStructure - If true, only keep structural elements (headings, lists)
+ * @param options - Conversion options such as the table mode
  * @returns Clean Markdown text optimized for LLMs
  */
 export async function SimpleMarkdown(
-  html: string,
+  html: string | Root,
   ignoreSelectors: string[] = [],
-  onlyStructure: boolean = false,
+  options: SimpleMarkdownOptions = {},
 ): Promise<string> {
-  const file = await htmlToMarkdownPipeline.process({
-    value: html,
-    data: { onlyStructure, ignoreSelectors } as ProcessingData,
-  });
+  const file = {
+    value: typeof html === 'string' ? html : '',
+    data: {
+      ignoreSelectors,
+      tableMode: options.tableMode,
+      imagePolicy: options.imagePolicy,
+      keepSelectors: options.keepSelectors,
+      pageUrl: options.pageUrl,
+      componentAdapters: options.componentAdapters,
+    } as ProcessingData,
+  };
+
+  // The pipeline mutates the tree, so a caller's tree is copied instead of parsed again
+  const tree = typeof html === 'string' ? htmlToMarkdownPipeline.parse(file) : structuredClone(html);
+  const markdownTree = await htmlToMarkdownPipeline.run(tree, file);
   
-  let markdown = String(file).trim();
+  let markdown = String(htmlToMarkdownPipeline.stringify(markdownTree)).trim();
   
   // Post-process to ensure LLMs.txt compatibility
   markdown = cleanupMarkdownForLlms(markdown);
@@ -257,28 +532,28 @@ function cleanupMarkdownForLlms(markdown: string): string {
     .replace(/<!--[\s\S]*?-->/g, '')
     // Clean up extra spaces
     .replace(/[ \t]+$/gm, '')
+    // Unescape image placeholders
+    .replace(/\\\[Image: /g, imageTextPrefix)
     // Ensure consistent line endings
     .replace(/\r\n/g, '\n')
+    // Drop any table cell placeholder left outside a table
+    .replace(new RegExp(tableCellBreak, 'g'), ' ')
     .trim();
 }
 
 /**
  * Extract only the text content for maximum LLMs compatibility
  */
-export async function extractTextOnly(html: string): Promise<string> {
-  const { JSDOM } = await import('jsdom');
-  const dom = new JSDOM(html);
-  const document = dom.window.document;
+export async function extractTextOnly(html: string | Root): Promise<string> {
+  // Parsed as a document, like trees from parseHtmlDocument, so the text is always read from body
+  const tree = typeof html === 'string' ? parseHtmlDocument(html) : structuredClone(html);
   
   // Remove all non-text elements
-  const elementsToRemove = document.querySelectorAll(
-    llmsExcludedSelectors.join(', ')
-  );
-  
-  elementsToRemove.forEach(element => element.remove());
+  const excludedSelector = llmsExcludedSelectors.join(', ');
+  remove(tree, (node) => matches(excludedSelector, node as RootContent));
   
   // Get clean text content
-  const textContent = document.body?.textContent || document.textContent || '';
+  const textContent = extractRawText(select('body', tree) || tree);
   
   return textContent
     .replace(/\s+/g, ' ')
@@ -0,0 +1,90 @@
+import type { AstroConfig } from "astro";
+import { existsSync } from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { normalizePathnameForMatching } from "./page-filter";
+
+/**
+ * The parts of the Astro config that decide page URLs
+ */
+export type SiteUrlSettings = Pick<AstroConfig, "site" | "base" | "trailingSlash">;
+
+/**
+ * URL that page pathnames and llms filenames are resolved against: site plus base when
+ * site is set ("https://example.com/docs/"), otherwise the base path alone ("/docs/")
+ */
+export function getBaseUrl(settings: SiteUrlSettings): string {
+  const basePath = `/${settings.base.replace(/^\/+|\/+$/g, "")}/`.replace(/^\/\/$/, "/");
+  return settings.site ? new URL(basePath, settings.site).toString() : basePath;
+}
+
+/**
+ * Resolve a path relative to the site root (without base) into a link
+ */
+export function resolveSiteUrl(relativePath: string, baseUrl: string): string {
+  const trimmedPath = relativePath.replace(/^\/+/, "");
+  return /^[a-z][a-z\d+.-]*:/i.test(baseUrl) ? new URL(trimmedPath, baseUrl).toString() : `${baseUrl}${trimmedPath}`;
+}
+
+/**
+ * Add or remove the trailing slash of a page pathname as trailingSlash requires; "ignore" keeps it as is
+ */
+export function applyTrailingSlash(pathname: string, trailingSlash: AstroConfig["trailingSlash"]): string {
+  if (trailingSlash === "ignore") return pathname;
+
+  const route = normalizePathnameForMatching(pathname);
+  if (route === "") return route;
+  return trailingSlash === "always" ? `${route}/` : route;
+}
+
+/**
+ * URL of a page as Astro serves it, for resolving the links on it
+ */
+export function getPageUrlFromPathname(pathname: string, settings: SiteUrlSettings): string {
+  return resolveSiteUrl(applyTrailingSlash(pathname, settings.trailingSlash), getBaseUrl(settings));
+}
+
+/**
+ * Map route pathnames to the HTML files Astro emitted, from the assets reported by astro:build:done
+ */
+export function createHtmlFileIndex(distDirectory: string, assets: Map<string, URL[]>): Map<string, string> {
+  const htmlFiles = new Map<string, string>();
+  for (const fileUrls of assets.values()) {
+    for (const fileUrl of fileUrls) {
+      const filePath = fileURLToPath(fileUrl);
+      if (path.extname(filePath) !== ".html") continue;
+
+      const relativePath = path.relative(distDirectory, filePath).split(path.sep).join("/");
+      htmlFiles.set(relativePath.replace(/(^|\/)index\.html$/, "").replace(/\.html$/, ""), filePath);
+    }
+  }
+  return htmlFiles;
+}
+
+/**
+ * Locate the HTML file of a page: from the emitted assets when listed, otherwise from build.format
+ */
+export function getHtmlFilePath(
+  pathname: string,
+  distDirectory: string,
+  buildFormat: AstroConfig["build"]["format"],
+  htmlFiles: Map<string, string> = new Map()
+): string {
+  const route = normalizePathnameForMatching(pathname).replace(/(^|\/)index\.html$/, "").replace(/\.html$/, "");
+  const emittedFile = htmlFiles.get(route);
+  if (emittedFile) return emittedFile;
+
+  const indexFilePath = path.join(distDirectory, route, "index.html");
+  const htmlFilePath = path.join(distDirectory, `${route}.html`);
+  if (route === "") return indexFilePath;
+
+  switch (buildFormat) {
+    case "file":
+      return htmlFilePath;
+    case "preserve":
+      // Depends on whether the source was an index file, which the pathname does not tell
+      return existsSync(htmlFilePath) ? htmlFilePath : indexFilePath;
+    default:
+      return indexFilePath;
+  }
+}
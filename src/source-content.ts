@@ -0,0 +1,184 @@
+import fs from "fs/promises";
+import path from "path";
+import yaml from "js-yaml";
+import { slug } from "github-slugger";
+import { normalizePathnameForMatching } from "./page-filter";
+
+export interface SourceEntry {
+  filePath: string;
+  collection?: string; // Undefined for files under src/pages
+  frontmatter: Record<string, unknown>;
+  body: string;
+}
+
+export interface SourceDocument {
+  title?: string;
+  description?: string;
+  order?: number;
+  draft: boolean;
+  lang?: string;
+  content: string;
+}
+
+const sourceExtensions = [".md", ".mdx", ".markdown"];
+
+/**
+ * Build a map from normalized route pathname to the Markdown source that produced it.
+ * Scans src/pages and every collection under src/content.
+ *
+ * @param srcDirectory - Absolute path of the Astro srcDir
+ * @param collectionRoutes - Route prefix per collection name; collections not listed use "/<name>/"
+ */
+export async function buildSourceIndex(
+  srcDirectory: string,
+  collectionRoutes: Record<string, string>
+): Promise<Map<string, SourceEntry>> {
+  const sourceIndex = new Map<string, SourceEntry>();
+
+  // Collection entries first so that explicit pages in src/pages take precedence
+  const contentDirectory = path.join(srcDirectory, "content");
+  for (const collection of await listDirectories(contentDirectory)) {
+    const collectionDirectory = path.join(contentDirectory, collection);
+    const routePrefix = collectionRoutes[collection] ?? `/${collection}/`;
+
+    for (const filePath of await listSourceFiles(collectionDirectory)) {
+      const entry = await readSourceEntry(filePath, collection);
+      const entryId = typeof entry.frontmatter.slug === "string"
+        ? entry.frontmatter.slug
+        : createEntryId(path.relative(collectionDirectory, filePath));
+      sourceIndex.set(joinRoute(routePrefix, entryId), entry);
+    }
+  }
+
+  const pagesDirectory = path.join(srcDirectory, "pages");
+  for (const filePath of await listSourceFiles(pagesDirectory)) {
+    const relativePath = path.relative(pagesDirectory, filePath);
+    // Dynamic routes have no single source file
+    if (relativePath.includes("[")) continue;
+
+    const entry = await readSourceEntry(filePath);
+    const route = relativePath.slice(0, -path.extname(relativePath).length).split(path.sep).join("/");
+    sourceIndex.set(joinRoute("/", route.replace(/(^|\/)index$/, "")), entry);
+  }
+
+  return sourceIndex;
+}
+
+/**
+ * Look up the source entry for a route pathname
+ */
+export function findSourceEntry(
+  sourceIndex: Map<string, SourceEntry>,
+  pathname: string
+): SourceEntry | undefined {
+  const normalized = normalizePathnameForMatching(pathname).replace(/\.html$/, "").replace(/(^|\/)index$/, "");
+  return sourceIndex.get(normalized) ?? sourceIndex.get(normalized.toLowerCase());
+}
+
+/**
+ * Turn a source entry into page fields, using frontmatter first and the body's H1 as a title fallback
+ */
+export function readSourceDocument(entry: SourceEntry): SourceDocument {
+  const { frontmatter } = entry;
+  let content = stripMdxModuleSyntax(entry.body, entry.filePath);
+  let title = asString(frontmatter.title);
+
+  // Mirror the HTML mode: the page title is emitted separately, so drop a leading H1
+  const headingMatch = content.match(/^\s*#\s+(.+?)\s*#*\s*(?:\n|$)/);
+  if (headingMatch) {
+    title = title || headingMatch[1];
+    content = content.slice(headingMatch[0].length);
+  }
+
+  const sidebar = frontmatter.sidebar as Record<string, unknown> | undefined;
+  const order = asNumber(frontmatter.order) ?? asNumber(sidebar?.order);
+
+  return {
+    title,
+    description: asString(frontmatter.description),
+    order,
+    draft: frontmatter.draft === true,
+    lang: asString(frontmatter.lang),
+    content: content.trim()
+  };
+}
+
+async function readSourceEntry(filePath: string, collection?: string): Promise<SourceEntry> {
+  const raw = await fs.readFile(filePath, "utf-8");
+  const { frontmatter, body } = parseFrontmatter(raw, filePath);
+  return { filePath, collection, frontmatter, body };
+}
+
+function parseFrontmatter(raw: string, filePath: string): { frontmatter: Record<string, unknown>; body: string } {
+  const match = raw.match(/^\uFEFF?---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) return { frontmatter: {}, body: raw };
+
+  try {
+    const parsed = yaml.load(match[1]);
+    const frontmatter = parsed && typeof parsed === "object" ? parsed as Record<string, unknown> : {};
+    return { frontmatter, body: raw.slice(match[0].length) };
+  } catch (error) {
+    throw new Error(`Invalid frontmatter in ${filePath}: ${error}`);
+  }
+}
+
+/**
+ * Remove the MDX import/export block at the top of the body, which carries no content.
+ * Statements further down are left alone so code samples inside fences survive.
+ */
+function stripMdxModuleSyntax(body: string, filePath: string): string {
+  if (path.extname(filePath) !== ".mdx") return body;
+  return body.replace(/^(?:\s*(?:import|export)\s[\s\S]*?(?:\n[ \t]*\n|$))+/, "");
+}
+
+function createEntryId(relativePath: string): string {
+  const segments = relativePath
+    .slice(0, -path.extname(relativePath).length)
+    .split(path.sep)
+    .map((segment) => slug(segment));
+  if (segments[segments.length - 1] === "index") segments.pop();
+  return segments.join("/");
+}
+
+function joinRoute(prefix: string, route: string): string {
+  return normalizePathnameForMatching(`${prefix}/${route}`.replace(/\/{2,}/g, "/"));
+}
+
+async function listDirectories(directory: string): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(directory, { withFileTypes: true });
+    return entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name);
+  } catch {
+    return [];
+  }
+}
+
+async function listSourceFiles(directory: string): Promise<string[]> {
+  const files: string[] = [];
+  let entries;
+  try {
+    entries = await fs.readdir(directory, { withFileTypes: true });
+  } catch {
+    return files;
+  }
+
+  for (const entry of entries) {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listSourceFiles(entryPath));
+    } else if (sourceExtensions.includes(path.extname(entry.name)) && !entry.name.startsWith("_")) {
+      files.push(entryPath);
+    }
+  }
+
+  return files;
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  const numeric = typeof value === "string" ? Number(value) : value;
+  return typeof numeric === "number" && Number.isFinite(numeric) ? numeric : undefined;
+}
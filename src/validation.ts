@@ -0,0 +1,206 @@
+import fs from "fs/promises";
+import path from "path";
+import type { OutputRendererName, PageData } from "./index";
+
+export type ValidationIssueKind =
+  | "failed-page" // Page could not be read or converted
+  | "empty-page" // Page has a title but no content
+  | "empty-file" // Index file lists no pages
+  | "duplicate-url" // Same URL linked twice from one file
+  | "broken-link" // Link does not resolve to a file in the build output
+  | "invalid-structure" // Index file does not follow the llms.txt layout
+  | "file-too-large"; // File exceeds maxFileBytes
+
+export interface StrictOptions {
+  maxFileBytes?: number; // Size limit for every generated file
+  allow?: Partial<Record<ValidationIssueKind, number>>; // Issues tolerated per kind, 0 by default
+}
+
+export interface ValidationIssue {
+  kind: ValidationIssueKind;
+  file?: string;
+  pathname?: string;
+  message: string;
+}
+
+export interface ValidationReport {
+  issues: ValidationIssue[];
+  counts: Partial<Record<ValidationIssueKind, number>>;
+  exceeded: ValidationIssueKind[]; // Kinds with more issues than allowed
+}
+
+export interface PageFailure {
+  pathname: string;
+  error: string;
+}
+
+export interface ValidationInput {
+  distDirectory: string;
+  files: { filename: string; kind: OutputRendererName | "custom" }[]; // Generated files, relative to distDirectory
+  pages: PageData[];
+  failedPages: PageFailure[];
+  site?: string;
+  base: string;
+  serverPathnames: string[]; // On-demand pages, which have no file in the build output
+}
+
+/**
+ * Check the written llms files and the pages that went into them.
+ * Every issue is reported; thresholds only decide which kinds count as failures.
+ */
+export async function validateLlmsOutput(input: ValidationInput, options: StrictOptions = {}): Promise<ValidationReport> {
+  const issues: ValidationIssue[] = [];
+
+  for (const failure of input.failedPages) {
+    issues.push({ kind: "failed-page", pathname: failure.pathname, message: failure.error });
+  }
+  for (const page of input.pages) {
+    if (!page.content?.trim()) {
+      issues.push({ kind: "empty-page", pathname: page.pathname, message: `"${page.title}" has no content` });
+    }
+  }
+
+  const serverPathnames = new Set(input.serverPathnames.map(normalizeLinkPathname));
+  for (const { filename, kind } of input.files) {
+    const filePath = path.join(input.distDirectory, filename);
+    const { size } = await fs.stat(filePath);
+    if (options.maxFileBytes !== undefined && size > options.maxFileBytes) {
+      issues.push({ kind: "file-too-large", file: filename, message: `${size} bytes, limit is ${options.maxFileBytes}` });
+    }
+
+    // Only index and small files have links to check; the rest can be very large or have no known layout
+    if (kind !== "index" && kind !== "small") continue;
+
+    const content = await fs.readFile(filePath, "utf-8");
+    if (kind === "index") {
+      issues.push(...validateIndexStructure(content, filename));
+    }
+    issues.push(...await validateLinks(content, filename, input, serverPathnames));
+  }
+
+  const counts: Partial<Record<ValidationIssueKind, number>> = {};
+  for (const issue of issues) {
+    counts[issue.kind] = (counts[issue.kind] || 0) + 1;
+  }
+  const exceeded = (Object.keys(counts) as ValidationIssueKind[])
+    .filter((kind) => counts[kind]! > (options.allow?.[kind] ?? 0));
+
+  return { issues, counts, exceeded };
+}
+
+/**
+ * Format a report for the build log: a summary line, then issues grouped by kind
+ */
+export function formatValidationReport(report: ValidationReport, maxIssuesPerKind = 10): string {
+  const kinds = Object.keys(report.counts) as ValidationIssueKind[];
+  if (kinds.length === 0) return "Validation: no issues";
+
+  const summary = kinds.map((kind) => `${report.counts[kind]} ${kind}`).join(", ");
+  const lines = [`Validation: ${summary}`];
+
+  for (const kind of kinds) {
+    const kindIssues = report.issues.filter((issue) => issue.kind === kind);
+    lines.push(`  ${kind}${report.exceeded.includes(kind) ? " (over threshold)" : ""}:`);
+    for (const issue of kindIssues.slice(0, maxIssuesPerKind)) {
+      const location = issue.file ?? (issue.pathname || "/");
+      lines.push(`    - ${location}: ${issue.message}`);
+    }
+    if (kindIssues.length > maxIssuesPerKind) {
+      lines.push(`    … and ${kindIssues.length - maxIssuesPerKind} more`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * An llms.txt file starts with a single H1, and every list entry is a Markdown link
+ */
+function validateIndexStructure(content: string, filename: string): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const lines = content.split("\n");
+  const firstLine = lines.find((line) => line.trim());
+
+  if (!firstLine?.startsWith("# ")) {
+    issues.push({ kind: "invalid-structure", file: filename, message: "does not start with an H1 title" });
+  }
+  if (lines.filter((line) => line.startsWith("# ")).length > 1) {
+    issues.push({ kind: "invalid-structure", file: filename, message: "has more than one H1" });
+  }
+  // Free-form details may come before the first section; section lists must only hold links
+  const sectionLines = lines.slice(Math.max(lines.findIndex((line) => line.startsWith("## ")), 0));
+  for (const line of sectionLines) {
+    if (line.startsWith("- ") && !/^- \[[^\]]+\]\([^)\s]+\)/.test(line)) {
+      issues.push({ kind: "invalid-structure", file: filename, message: `list entry is not a link: ${line}` });
+    }
+  }
+  if (!lines.some((line) => /^- \[[^\]]+\]\(/.test(line))) {
+    issues.push({ kind: "empty-file", file: filename, message: "lists no pages" });
+  }
+
+  return issues;
+}
+
+async function validateLinks(
+  content: string,
+  filename: string,
+  input: ValidationInput,
+  serverPathnames: Set<string>
+): Promise<ValidationIssue[]> {
+  const issues: ValidationIssue[] = [];
+  const seenUrls = new Set<string>();
+  const siteOrigin = input.site ? new URL(input.site).origin : undefined;
+
+  for (const match of content.matchAll(/^\s*- \[[^\]]*\]\(([^)\s]+)\)/gm)) {
+    const url = match[1];
+    // The small file links headings of the same page, so only whole URLs must be unique
+    if (!url.includes("#")) {
+      if (seenUrls.has(url)) {
+        issues.push({ kind: "duplicate-url", file: filename, message: url });
+      }
+      seenUrls.add(url);
+    }
+
+    const resolvedUrl = new URL(url, input.site || "http://localhost/");
+    if (siteOrigin && resolvedUrl.origin !== siteOrigin) continue;
+
+    const linkPathname = stripBase(decodeURIComponent(resolvedUrl.pathname), input.base);
+    if (serverPathnames.has(normalizeLinkPathname(linkPathname))) continue;
+
+    if (!await findOutputFile(input.distDirectory, linkPathname)) {
+      issues.push({ kind: "broken-link", file: filename, message: `${url} has no file in the build output` });
+    }
+  }
+
+  return issues;
+}
+
+async function findOutputFile(distDirectory: string, linkPathname: string): Promise<boolean> {
+  const relativePath = linkPathname.replace(/^\/+/, "");
+  const routePath = relativePath.replace(/\/+$/, "");
+  // A trailing slash does not tell the build format: "guides/" may be guides.html with trailingSlash "always"
+  const candidates = routePath === ""
+    ? ["index.html"]
+    : path.extname(relativePath)
+      ? [relativePath]
+      : [`${routePath}.html`, path.join(routePath, "index.html")];
+
+  for (const candidate of candidates) {
+    try {
+      await fs.access(path.join(distDirectory, candidate));
+      return true;
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return false;
+}
+
+function stripBase(pathname: string, base: string): string {
+  const basePath = base.replace(/\/+$/, "");
+  return basePath && pathname.startsWith(`${basePath}/`) ? pathname.slice(basePath.length) : pathname;
+}
+
+function normalizeLinkPathname(pathname: string): string {
+  return pathname.replace(/^\/+|\/+$/g, "");
+}
@@ -0,0 +1,4 @@
+declare module "virtual:astro-llms-generate/runtime" {
+  const runtimeJson: string;
+  export default runtimeJson;
+}
@@ -0,0 +1,148 @@
+import { readFileSync } from "fs";
+import { createRequire } from "module";
+import path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { Worker } from "worker_threads";
+import type { PageExtraction } from "./index";
+
+export interface PageConversionTask {
+  id: number;
+  pathname: string;
+  htmlFilePath: string;
+  htmlContent: string;
+}
+
+export type PageConversionResult =
+  | { id: number; extraction: PageExtraction }
+  | { id: number; error: string };
+
+/**
+ * Converts pages on worker threads, one page per worker at a time
+ */
+export interface PageWorkerPool {
+  size: number;
+  convert(pathname: string, htmlFilePath: string, htmlContent: string): Promise<PageExtraction>;
+  close(): Promise<void>;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  taskId?: number; // Task in progress
+}
+
+interface PendingTask {
+  task: PageConversionTask;
+  resolve: (extraction: PageExtraction) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * The integration ships as TypeScript, so workers load their entry through Vite's module runner.
+ * Eval workers resolve bare imports from the working directory, so Vite is passed in as a resolved URL.
+ */
+const workerBootstrap = `
+const { workerData } = require("worker_threads");
+import(workerData.viteEntry).then(({ runnerImport }) => runnerImport(workerData.entry));
+`;
+
+/**
+ * URL of the Vite that Astro runs on. Projects need not depend on vite themselves,
+ * and with pnpm it is only reachable from astro's own dependencies.
+ */
+function resolveViteEntry(): string {
+  const astroRequire = createRequire(createRequire(import.meta.url).resolve("astro/package.json"));
+  const vitePackagePath = astroRequire.resolve("vite/package.json");
+  const viteExports = JSON.parse(readFileSync(vitePackagePath, "utf-8")).exports["."];
+  const importPath: string = typeof viteExports.import === "string" ? viteExports.import : viteExports.import.default;
+  return pathToFileURL(path.join(path.dirname(vitePackagePath), importPath)).href;
+}
+
+/**
+ * Create a pool of up to `size` workers. Workers start on the first conversion,
+ * and queued pages are handed out as soon as a worker is free.
+ *
+ * @param size - Maximum number of worker threads
+ * @param runtimeJson - Serialized options, see serializeEndpointRuntime
+ * @param onFailure - Called once when the pool stops working, e.g. because a worker cannot start
+ */
+export function createPageWorkerPool(
+  size: number,
+  runtimeJson: string,
+  onFailure?: (error: Error) => void
+): PageWorkerPool {
+  const entry = fileURLToPath(new URL("./page-worker.ts", import.meta.url));
+  const viteEntry = resolveViteEntry();
+  const workers: PoolWorker[] = [];
+  const queue: PendingTask[] = [];
+  const running = new Map<number, PendingTask>();
+  let nextTaskId = 0;
+  let failure: Error | undefined;
+
+  const fail = (error: Error) => {
+    if (!failure) {
+      failure = error;
+      onFailure?.(error);
+    }
+    for (const pending of [...running.values(), ...queue]) pending.reject(error);
+    running.clear();
+    queue.length = 0;
+  };
+
+  const startWorker = (): PoolWorker => {
+    const poolWorker: PoolWorker = {
+      worker: new Worker(workerBootstrap, { eval: true, workerData: { entry, viteEntry, runtimeJson } })
+    };
+
+    poolWorker.worker.on("message", (result: PageConversionResult) => {
+      const pending = running.get(result.id);
+      running.delete(result.id);
+      poolWorker.taskId = undefined;
+      if (pending) {
+        if ("error" in result) {
+          pending.reject(new Error(result.error));
+        } else {
+          pending.resolve(result.extraction);
+        }
+      }
+      dispatch();
+    });
+    // A worker that crashes or cannot load its entry takes the pool down; callers fall back to the main thread
+    poolWorker.worker.on("error", fail);
+    poolWorker.worker.on("exit", (code) => {
+      if (code !== 0) fail(new Error(`Page worker exited with code ${code}`));
+    });
+
+    workers.push(poolWorker);
+    return poolWorker;
+  };
+
+  const dispatch = () => {
+    while (queue.length > 0) {
+      const idleWorker = workers.find((poolWorker) => poolWorker.taskId === undefined)
+        ?? (workers.length < size ? startWorker() : undefined);
+      if (!idleWorker) return;
+
+      const pending = queue.shift()!;
+      idleWorker.taskId = pending.task.id;
+      running.set(pending.task.id, pending);
+      idleWorker.worker.postMessage(pending.task);
+    }
+  };
+
+  return {
+    size,
+    convert: (pathname, htmlFilePath, htmlContent) => {
+      if (failure) return Promise.reject(failure);
+
+      return new Promise<PageExtraction>((resolve, reject) => {
+        queue.push({ task: { id: nextTaskId++, pathname, htmlFilePath, htmlContent }, resolve, reject });
+        dispatch();
+      });
+    },
+    close: async () => {
+      failure ??= new Error("Page worker pool is closed");
+      await Promise.all(workers.map((poolWorker) => poolWorker.worker.terminate()));
+      workers.length = 0;
+    }
+  };
+}
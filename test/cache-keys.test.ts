@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { createPageCacheFingerprint, generateSmartDefaults, type LlmsConfig } from "../src/index";
+
+const astroSettings = { site: "https://example.com", base: "/", trailingSlash: "ignore" as const, i18n: undefined };
+
+function createTaggingConfig(tag: string): LlmsConfig {
+  return { transformPage: (page) => ({ ...page, title: `${tag}: ${page.title}` }) };
+}
+
+describe("generateSmartDefaults", () => {
+  it("keeps configs apart whose functions have the same source but capture different values", async () => {
+    const first = await generateSmartDefaults(astroSettings, createTaggingConfig("first"), "");
+    const second = await generateSmartDefaults(astroSettings, createTaggingConfig("second"), "");
+    const page = { pathname: "intro", title: "Intro" };
+
+    expect(await first.transformPage(page, { document: null, tree: null, pathname: "intro", htmlFilePath: "" }))
+      .toMatchObject({ title: "first: Intro" });
+    expect(await second.transformPage(page, { document: null, tree: null, pathname: "intro", htmlFilePath: "" }))
+      .toMatchObject({ title: "second: Intro" });
+  });
+
+  it("reuses the resolved config for the same options", async () => {
+    const userConfig = createTaggingConfig("same");
+
+    expect(await generateSmartDefaults(astroSettings, userConfig, "")).toBe(await generateSmartDefaults(astroSettings, userConfig, ""));
+  });
+});
+
+describe("createPageCacheFingerprint", () => {
+  const fingerprint = createPageCacheFingerprint(astroSettings, { contentSelector: "article" });
+
+  it("ignores options that do not change page extraction", () => {
+    expect(createPageCacheFingerprint(astroSettings, {
+      contentSelector: "article",
+      renderOrigin: "http://localhost:4321",
+      outputs: [{ filename: "llms-api.txt", renderer: "full", patterns: ["api/**"] }],
+      sections: [{ title: "Guides", patterns: ["guides/**"] }],
+      title: "Docs"
+    })).toBe(fingerprint);
+  });
+
+  it("changes with extraction options and URL settings", () => {
+    expect(createPageCacheFingerprint(astroSettings, { contentSelector: "main" })).not.toBe(fingerprint);
+    expect(createPageCacheFingerprint(astroSettings, { contentSelector: "article", tableMode: "text" })).not.toBe(fingerprint);
+    expect(createPageCacheFingerprint({ ...astroSettings, base: "/docs" }, { contentSelector: "article" })).not.toBe(fingerprint);
+  });
+});
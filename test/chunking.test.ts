@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { defaultTokenEstimator, fitsBudget, packBlocksIntoChunks, partsFitBudget, reserveBudget, type ContentBudget } from "../src/chunking";
+
+const separator = "\n\n---\n\n";
+const header = "# Docs\n> Documentation\n\n*Part 1 of 9*\n\n";
+
+function createPage(title: string, sectionCount: number): { title: string; markdown: string } {
+  const sections = Array.from({ length: sectionCount }, (_, index) =>
+    `## Section ${index + 1}\n\n${"Lorem ipsum dolor sit amet. ".repeat(8).trim()}`);
+  return { title, markdown: [`# ${title}`, ...sections].join("\n\n") };
+}
+
+describe("reserveBudget", () => {
+  it("subtracts the reserved text from both limits", () => {
+    const budget: ContentBudget = { maxTokens: 100, maxBytes: 400, estimateTokens: defaultTokenEstimator };
+    const reserved = reserveBudget(budget, "x".repeat(40));
+
+    expect(reserved.maxTokens).toBe(90);
+    expect(reserved.maxBytes).toBe(360);
+  });
+
+  it("keeps unset limits unlimited", () => {
+    const reserved = reserveBudget({ maxTokens: Infinity, maxBytes: 400, estimateTokens: defaultTokenEstimator }, header);
+
+    expect(reserved.maxTokens).toBe(Infinity);
+  });
+});
+
+describe("packBlocksIntoChunks", () => {
+  it("fits every chunk within the budget once its header is added", () => {
+    const budget: ContentBudget = { maxTokens: Infinity, maxBytes: 1200, estimateTokens: defaultTokenEstimator };
+    const blocks = [createPage("Intro", 2), createPage("Setup", 2), createPage("Config", 2), createPage("Deploy", 2)];
+
+    const chunks = packBlocksIntoChunks(blocks, reserveBudget(budget, header), separator);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(fitsBudget(header + chunk.map((block) => block.markdown).join(separator), budget)).toBe(true);
+    }
+  });
+
+  it("counts the continued title of split pages against the budget", () => {
+    const budget: ContentBudget = { maxTokens: 250, maxBytes: Infinity, estimateTokens: defaultTokenEstimator };
+
+    const chunks = packBlocksIntoChunks([createPage("Reference", 12)], reserveBudget(budget, header), separator);
+    const parts = chunks.flat();
+
+    expect(parts.length).toBeGreaterThan(1);
+    expect(parts.slice(1).every((part) => part.markdown.startsWith("# Reference (continued)\n\n"))).toBe(true);
+    for (const chunk of chunks) {
+      expect(fitsBudget(header + chunk.map((block) => block.markdown).join(separator), budget)).toBe(true);
+    }
+  });
+});
+
+describe("partsFitBudget", () => {
+  const budget: ContentBudget = { maxTokens: 10, maxBytes: 30, estimateTokens: defaultTokenEstimator };
+
+  it("adds up the parts", () => {
+    expect(partsFitBudget(["x".repeat(12), "y".repeat(12)], budget)).toBe(true);
+    expect(partsFitBudget(["x".repeat(12), "y".repeat(12), "z".repeat(12)], budget)).toBe(false);
+  });
+
+  it("stops reading parts once the budget is exceeded", () => {
+    let readParts = 0;
+    function* parts() {
+      for (let index = 0; index < 100; index++) {
+        readParts++;
+        yield "x".repeat(20);
+      }
+    }
+
+    expect(partsFitBudget(parts(), budget)).toBe(false);
+    expect(readParts).toBe(2);
+  });
+});
@@ -0,0 +1,40 @@
+import { readdirSync, readFileSync } from "fs";
+import { select } from "hast-util-select";
+import { describe, expect, it } from "vitest";
+import { parseHtmlDocument } from "../src/html-document";
+import { normalizeCodeBlock } from "../src/code-blocks";
+import { SimpleMarkdown } from "../src/simple-markdown";
+
+const fixturesDirectory = new URL("./fixtures/code-blocks/", import.meta.url);
+
+/**
+ * Every HTML fixture sits next to the Markdown it must convert to
+ */
+const fixtureNames = readdirSync(fixturesDirectory)
+  .filter((file) => file.endsWith(".html"))
+  .map((file) => file.replace(/\.html$/, ""));
+
+function readFixture(filename: string): string {
+  return readFileSync(new URL(filename, fixturesDirectory), "utf-8");
+}
+
+describe("normalizeCodeBlock", () => {
+  it.each(fixtureNames)("converts %s to the expected Markdown", async (name) => {
+    const markdown = await SimpleMarkdown(readFixture(`${name}.html`), []);
+
+    expect(markdown).toBe(readFixture(`${name}.md`).trimEnd());
+  });
+
+  it("keeps the wrapper's attributes so ignore selectors still match it", async () => {
+    const markdown = await SimpleMarkdown(`<main><p>Intro</p>${readFixture("expressive-code-title.html")}</main>`, [".expressive-code"]);
+
+    expect(markdown).toBe("Intro");
+  });
+
+  it("leaves elements that are not code blocks alone", () => {
+    const tree = parseHtmlDocument("<figure class=\"image\"><img src=\"a.png\" alt=\"A\"></figure><p>Text</p>");
+
+    expect(normalizeCodeBlock(select("figure", tree)!)).toBeUndefined();
+    expect(normalizeCodeBlock(select("p", tree)!)).toBeUndefined();
+  });
+});
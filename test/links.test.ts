@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { resolveHref, resolveMarkdownLinks } from "../src/links";
+
+describe("resolveHref", () => {
+  it.each([
+    ["../config/", "https://example.com/docs/guides/intro/", "https://example.com/docs/guides/config/"],
+    ["#options", "https://example.com/docs/guides/intro/", "https://example.com/docs/guides/intro/#options"],
+    ["setup/", "/docs/guides/intro/", "/docs/guides/intro/setup/"],
+    ["setup/", "/docs/guides/intro", "/docs/guides/setup/"],
+    ["https://astro.build/", "/docs/guides/intro/", "https://astro.build/"],
+    ["mailto:team@example.com", "/docs/", "mailto:team@example.com"]
+  ])("resolves %j on %j", (href, pageUrl, expected) => {
+    expect(resolveHref(href, pageUrl)).toBe(expected);
+  });
+});
+
+describe("resolveMarkdownLinks", () => {
+  const pageUrl = "https://example.com/docs/guides/intro/";
+
+  it("resolves relative links and keeps their titles", () => {
+    const markdown = 'See [configuration](../config/ "Config") and [options](#options).';
+
+    expect(resolveMarkdownLinks(markdown, pageUrl)).toBe(
+      'See [configuration](https://example.com/docs/guides/config/ "Config") and [options](https://example.com/docs/guides/intro/#options).'
+    );
+  });
+
+  it("leaves images, absolute links and fenced code as written", () => {
+    const markdown = [
+      "![Diagram](./diagram.png) [Astro](https://astro.build/)",
+      "",
+      "```md",
+      "[relative](../config/)",
+      "```"
+    ].join("\n");
+
+    expect(resolveMarkdownLinks(markdown, pageUrl)).toBe(markdown);
+  });
+});
@@ -0,0 +1,36 @@
+import { readFileSync } from "fs";
+import type { Root } from "hast";
+import { JSDOM } from "jsdom";
+import { bench, describe } from "vitest";
+import { getTextContent, parseHtmlDocument, selectElement } from "../src/html-document";
+import { SimpleMarkdown } from "../src/simple-markdown";
+
+const docsPage = readFileSync(new URL("./fixtures/docs-page.html", import.meta.url), "utf-8");
+const ignoreSelectors = ["header", "footer", "nav", ".no-llms", "script", "style"];
+
+describe("extract one page", () => {
+  // Before: a JSDOM document for metadata, then the content serialized and parsed again per conversion
+  bench("JSDOM document and HTML strings", async () => {
+    const dom = new JSDOM(docsPage);
+    const document = dom.window.document;
+    document.querySelector("h1")?.textContent;
+    document.querySelector('meta[name="description"]')?.getAttribute("content");
+    document.documentElement.getAttribute("lang");
+
+    const mainHtml = document.querySelector("main")?.innerHTML || "";
+    await SimpleMarkdown(mainHtml, ignoreSelectors);
+    dom.window.close();
+  });
+
+  // After: one hast parse, shared by metadata lookups and the Markdown conversion
+  bench("single hast parse", async () => {
+    const tree = parseHtmlDocument(docsPage);
+    getTextContent(selectElement("h1", tree));
+    selectElement('meta[name="description"]', tree)?.properties.content;
+    selectElement("html", tree)?.properties.lang;
+
+    const main = selectElement("main", tree);
+    const contentRoot: Root = { type: "root", children: main?.children || [] };
+    await SimpleMarkdown(contentRoot, ignoreSelectors);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { filterPagesByPatterns, findMatchingPattern, globToRegExp, matchesPatterns } from "../src/page-filter";
+
+function matchesGlob(glob: string, pathname: string): boolean {
+  return globToRegExp(glob).test(pathname);
+}
+
+describe("globToRegExp", () => {
+  it.each([
+    ["**", "guides/intro", true],
+    ["**", "", true],
+    ["guides/**", "guides", true],
+    ["guides/**", "guides/intro", true],
+    ["guides/**", "guides/advanced/setup", true],
+    ["guides/**", "guidesx", false],
+    ["**/intro", "intro", true],
+    ["**/intro", "guides/advanced/intro", true],
+    ["**/intro", "guides/introduction", false],
+    ["guides/**/setup", "guides/setup", true],
+    ["guides/**/setup", "guides/a/b/setup", true],
+    ["**/404*", "404", true],
+    ["**/404*", "fr/404.html", true]
+  ])("%j matches %j: %s", (glob, pathname, expected) => {
+    expect(matchesGlob(glob, pathname)).toBe(expected);
+  });
+
+  it.each([
+    ["guides/*", "guides/intro", true],
+    ["guides/*", "guides/intro/setup", false],
+    ["guides/?ntro", "guides/intro", true],
+    ["guides/[a-i]*", "guides/intro", true],
+    ["guides/[!a-i]*", "guides/intro", false],
+    ["v1.0/*", "v1x0/intro", false]
+  ])("%j matches %j: %s", (glob, pathname, expected) => {
+    expect(matchesGlob(glob, pathname)).toBe(expected);
+  });
+
+  it.each([
+    ["docs/{guides,reference}/**", "docs/guides/intro", true],
+    ["docs/{guides,reference}/**", "docs/reference", true],
+    ["docs/{guides,reference}/**", "docs/blog/post", false],
+    ["{en,fr}/{guides,api/{v1,v2}}/*", "fr/api/v2/auth", true],
+    ["{en,fr}/{guides,api/{v1,v2}}/*", "fr/api/v3/auth", false]
+  ])("%j matches %j: %s", (glob, pathname, expected) => {
+    expect(matchesGlob(glob, pathname)).toBe(expected);
+  });
+
+  it("matches unclosed braces and brackets literally instead of throwing", () => {
+    expect(() => globToRegExp("docs/{a,b")).not.toThrow();
+    expect(matchesGlob("docs/{a,b", "docs/{a,b")).toBe(true);
+    expect(matchesGlob("docs/{a,b", "docs/a")).toBe(false);
+    expect(matchesGlob("docs/{a,{b}", "docs/{a,b")).toBe(true);
+    expect(matchesGlob("docs/[a", "docs/[a")).toBe(true);
+    expect(matchesGlob("docs/[z-a]", "docs/[z-a]")).toBe(true);
+    expect(matchesGlob("docs/a}", "docs/a}")).toBe(true);
+  });
+
+  it("ignores leading and trailing slashes of the glob", () => {
+    expect(matchesGlob("/guides/*/", "guides/intro")).toBe(true);
+  });
+});
+
+describe("findMatchingPattern", () => {
+  it("lets the last matching pattern win, with negation cancelling earlier matches", () => {
+    const patterns = ["guides/**", "!guides/drafts/**", "guides/drafts/published"];
+
+    expect(findMatchingPattern("guides/intro", patterns)).toBe("guides/**");
+    expect(findMatchingPattern("guides/drafts/idea", patterns)).toBeUndefined();
+    expect(findMatchingPattern("guides/drafts/published", patterns)).toBe("guides/drafts/published");
+  });
+
+  it("does not match on a negation alone", () => {
+    expect(matchesPatterns("guides/intro", ["!guides/drafts/**"])).toBe(false);
+  });
+
+  it("normalizes slashes of the pathname and tests regular expressions with and without a leading slash", () => {
+    expect(matchesPatterns("/guides/intro/", ["guides/intro"])).toBe(true);
+    expect(matchesPatterns("guides/intro/", [/^\/guides\//])).toBe(true);
+    expect(matchesPatterns("guides/intro/", [(pathname) => pathname === "guides/intro"])).toBe(true);
+  });
+});
+
+describe("filterPagesByPatterns", () => {
+  const pages = ["", "guides/intro/", "guides/drafts/idea/", "guides/drafts/published/", "blog/post/", "404"]
+    .map((pathname) => ({ pathname }));
+
+  it("keeps pages matched by includePatterns and not by excludePatterns", () => {
+    const { pages: included, report } = filterPagesByPatterns(pages, ["guides/**"], ["guides/drafts/**", "!guides/drafts/published"]);
+
+    expect(included.map((page) => page.pathname)).toEqual(["guides/intro/", "guides/drafts/published/"]);
+    expect(report.included).toBe(2);
+    expect(report.excluded).toBe(4);
+    expect(report.reasons).toEqual({
+      "not matched by includePatterns": 3,
+      'excluded by "guides/drafts/**"': 1
+    });
+  });
+
+  it("includes every page without includePatterns", () => {
+    const { pages: included } = filterPagesByPatterns(pages, [], ["**/404*"]);
+
+    expect(included).toHaveLength(5);
+  });
+
+  it("lets a negated include pattern take pages back out before exclusion", () => {
+    const { pages: included, report } = filterPagesByPatterns(pages, ["**", "!blog/**"], ["404"]);
+
+    expect(included.map((page) => page.pathname)).toEqual(["", "guides/intro/", "guides/drafts/idea/", "guides/drafts/published/"]);
+    expect(report.decisions.find((decision) => decision.pathname === "404")?.reason).toBe('excluded by "404"');
+  });
+});
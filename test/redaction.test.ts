@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import type { PageData } from "../src/index";
+import { extractHeadingOutline } from "../src/outline";
+import { redactionPresets, redactPages } from "../src/redaction";
+
+const apiKey = "sk-abcdefghijklmnopqrstuvwx";
+
+function createPage(content: string): PageData {
+  return { pathname: "guides/keys/", title: "Keys", content, headings: extractHeadingOutline(content) };
+}
+
+describe("redactPages", () => {
+  it("rebuilds heading slugs from the redacted text", () => {
+    const page = createPage(`## Use key ${apiKey}\n\nText\n\n## Rotate keys\n\n## Use key ${apiKey}`);
+
+    const stats = redactPages([page], [redactionPresets.apiKeys]);
+
+    expect(page.headings).toEqual([
+      { depth: 2, text: "Use key [REDACTED]", slug: "use-key-redacted" },
+      { depth: 2, text: "Rotate keys", slug: "rotate-keys" },
+      { depth: 2, text: "Use key [REDACTED]", slug: "use-key-redacted-1" }
+    ]);
+    expect(JSON.stringify(page)).not.toContain(apiKey.slice(3));
+    expect(stats.total).toBe(4);
+  });
+
+  it("leaves slugs alone on pages whose headings have nothing to redact", () => {
+    const page = createPage("## Setup\n\nKey: " + apiKey);
+    page.headings![0].slug = "custom-setup";
+
+    redactPages([page], [redactionPresets.apiKeys]);
+
+    expect(page.headings![0].slug).toBe("custom-setup");
+    expect(page.content).toBe("## Setup\n\nKey: [REDACTED]");
+  });
+
+  it("replaces whole autolinks that contain a match", () => {
+    const page = createPage(`Mail <jane@example.com> or open <https://example.com/?key=${apiKey}>, not <https://example.com/>.`);
+
+    const stats = redactPages([page], [redactionPresets.emails, redactionPresets.apiKeys]);
+
+    expect(page.content).toBe("Mail [REDACTED] or open [REDACTED], not <https://example.com/>.");
+    expect(stats.byRule).toEqual({ emails: 1, apiKeys: 1 });
+  });
+
+  it("redacts addresses that are not autolinks", () => {
+    const page = createPage("Write to jane\\@example.com.");
+
+    redactPages([page], [{ pattern: redactionPresets.emails.pattern, replacement: "[email]" }]);
+
+    expect(page.content).toBe("Write to [email].");
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { filterPagesByPatterns, matchesPatterns } from "../src/page-filter";
+import { reviveEndpointRuntime, serializeEndpointRuntime, type EndpointRuntime } from "../src/runtime-config";
+
+function roundTrip(userConfig: EndpointRuntime["userConfig"]): EndpointRuntime {
+  return reviveEndpointRuntime(serializeEndpointRuntime({ userConfig, base: "/", trailingSlash: "ignore", pathnames: [] }));
+}
+
+describe("serializeEndpointRuntime", () => {
+  it("keeps regular expressions", () => {
+    const { userConfig } = roundTrip({ excludePatterns: [/^private\//i] });
+
+    expect(userConfig.excludePatterns).toEqual([/^private\//i]);
+    expect(userConfig.excludePatterns![0]).toBeInstanceOf(RegExp);
+  });
+
+  it("drops predicate patterns instead of leaving null in their place", () => {
+    const { userConfig } = roundTrip({
+      excludePatterns: ["**/404*", (pathname) => pathname.startsWith("drafts/")],
+      optionalPatterns: [(pathname) => pathname.includes("advanced")],
+      sections: [{ title: "Guides", patterns: ["guides/**", () => true] }],
+      selectorOverrides: [{ patterns: [() => true, "blog/**"], contentSelector: "article" }],
+      outputs: [{ filename: "llms-api.txt", renderer: "full", patterns: [() => true, "api/**"] }]
+    });
+
+    expect(userConfig.excludePatterns).toEqual(["**/404*"]);
+    expect(userConfig.optionalPatterns).toEqual([]);
+    expect(userConfig.sections![0].patterns).toEqual(["guides/**"]);
+    expect(userConfig.selectorOverrides![0].patterns).toEqual(["blog/**"]);
+    expect(userConfig.outputs![0].patterns).toEqual(["api/**"]);
+  });
+
+  it("gives patterns that filter pages without throwing", () => {
+    const { userConfig } = roundTrip({ excludePatterns: ["**/404*", (pathname) => pathname.startsWith("drafts/")] });
+    const pages = [{ pathname: "guides/intro/" }, { pathname: "404" }, { pathname: "drafts/idea/" }];
+
+    const { pages: included } = filterPagesByPatterns(pages, ["**/*"], userConfig.excludePatterns!);
+
+    // The predicate is gone, so only the glob still excludes pages
+    expect(included.map((page) => page.pathname)).toEqual(["guides/intro/", "drafts/idea/"]);
+    expect(() => matchesPatterns("guides/intro/", userConfig.excludePatterns!)).not.toThrow();
+  });
+
+  it("drops function options outside arrays", () => {
+    const { userConfig } = roundTrip({ title: "Docs", transformPage: (page) => page });
+
+    expect(userConfig).toEqual({ title: "Docs" });
+  });
+});
@@ -0,0 +1,43 @@
+import { readFileSync } from "fs";
+import { describe, expect, it } from "vitest";
+import { parseHtmlDocument } from "../src/html-document";
+import { extractTextOnly, SimpleMarkdown } from "../src/simple-markdown";
+
+const docsPage = readFileSync(new URL("./fixtures/docs-page.html", import.meta.url), "utf-8");
+const ignoreSelectors = ["header", "footer", "nav", ".no-llms", "script", "style"];
+
+describe("SimpleMarkdown", () => {
+  it("gives the same Markdown for an HTML string and its hast tree", async () => {
+    const fromString = await SimpleMarkdown(docsPage, ignoreSelectors);
+    const fromTree = await SimpleMarkdown(parseHtmlDocument(docsPage), ignoreSelectors);
+
+    expect(fromTree).toBe(fromString);
+    expect(fromTree).toContain("## Options");
+    expect(fromTree).toContain("```js");
+    expect(fromTree).not.toContain("Was this page helpful?");
+  });
+
+  it("gives the same Markdown for both inputs with every option set", async () => {
+    const options = { tableMode: "text" as const, imagePolicy: "remove" as const, pageUrl: "https://example.com/reference/config/" };
+    const fromString = await SimpleMarkdown(docsPage, ignoreSelectors, options);
+    const fromTree = await SimpleMarkdown(parseHtmlDocument(docsPage), ignoreSelectors, options);
+
+    expect(fromTree).toBe(fromString);
+    expect(fromTree).toContain("[introduction](https://example.com/reference/guides/intro/)");
+  });
+
+  it("leaves a hast tree it was given unmodified", async () => {
+    const tree = parseHtmlDocument(docsPage);
+    const snapshot = structuredClone(tree);
+
+    await SimpleMarkdown(tree, ignoreSelectors);
+
+    expect(tree).toEqual(snapshot);
+  });
+});
+
+describe("extractTextOnly", () => {
+  it("gives the same text for an HTML string and its hast tree", async () => {
+    expect(await extractTextOnly(parseHtmlDocument(docsPage))).toBe(await extractTextOnly(docsPage));
+  });
+});
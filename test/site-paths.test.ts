@@ -0,0 +1,167 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { pathToFileURL } from "url";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  applyTrailingSlash,
+  createHtmlFileIndex,
+  getBaseUrl,
+  getHtmlFilePath,
+  getPageUrlFromPathname,
+  resolveSiteUrl,
+  type SiteUrlSettings
+} from "../src/site-paths";
+
+type BuildFormat = "file" | "directory" | "preserve";
+type TrailingSlash = SiteUrlSettings["trailingSlash"];
+
+const buildFormats: BuildFormat[] = ["file", "directory", "preserve"];
+const trailingSlashes: TrailingSlash[] = ["always", "never", "ignore"];
+
+/**
+ * Files Astro emits for src/pages/index.astro, src/pages/guides/index.astro and src/pages/guides/intro.astro
+ */
+const emittedFiles: Record<BuildFormat, Record<string, string>> = {
+  file: { "": "index.html", guides: "guides.html", "guides/intro": "guides/intro.html" },
+  directory: { "": "index.html", guides: "guides/index.html", "guides/intro": "guides/intro/index.html" },
+  preserve: { "": "index.html", guides: "guides/index.html", "guides/intro": "guides/intro.html" }
+};
+
+/**
+ * Pathnames a route may be reported with: always with a slash, never with one, or either
+ */
+function getReportedPathnames(route: string, trailingSlash: TrailingSlash): string[] {
+  if (route === "") return [""];
+  if (trailingSlash === "always") return [`${route}/`];
+  if (trailingSlash === "never") return [route];
+  return [route, `${route}/`];
+}
+
+describe("getBaseUrl", () => {
+  it.each([
+    ["/", undefined, "/"],
+    ["/docs", undefined, "/docs/"],
+    ["/docs/", undefined, "/docs/"],
+    ["docs", undefined, "/docs/"],
+    ["/", "https://example.com", "https://example.com/"],
+    ["/docs", "https://example.com", "https://example.com/docs/"],
+    ["/docs/", "https://example.com/", "https://example.com/docs/"]
+  ])("base %j with site %j gives %j", (base, site, expected) => {
+    expect(getBaseUrl({ base, site, trailingSlash: "ignore" })).toBe(expected);
+  });
+});
+
+describe("resolveSiteUrl", () => {
+  it.each([
+    ["guides/intro/", "/", "/guides/intro/"],
+    ["/guides/intro", "/docs/", "/docs/guides/intro"],
+    ["llms.txt", "/docs/", "/docs/llms.txt"],
+    ["", "/docs/", "/docs/"],
+    ["guides/intro/", "https://example.com/", "https://example.com/guides/intro/"],
+    ["/llms.txt", "https://example.com/docs/", "https://example.com/docs/llms.txt"],
+    ["", "https://example.com/docs/", "https://example.com/docs/"]
+  ])("resolves %j against %j", (relativePath, baseUrl, expected) => {
+    expect(resolveSiteUrl(relativePath, baseUrl)).toBe(expected);
+  });
+});
+
+describe("applyTrailingSlash", () => {
+  it.each([
+    ["guides/intro", "always", "guides/intro/"],
+    ["guides/intro/", "always", "guides/intro/"],
+    ["guides/intro", "never", "guides/intro"],
+    ["guides/intro/", "never", "guides/intro"],
+    ["guides/intro", "ignore", "guides/intro"],
+    ["guides/intro/", "ignore", "guides/intro/"],
+    ["", "always", ""],
+    ["/", "never", ""],
+    ["", "ignore", ""]
+  ] as const)("%j with %s gives %j", (pathname, trailingSlash, expected) => {
+    expect(applyTrailingSlash(pathname, trailingSlash)).toBe(expected);
+  });
+});
+
+describe("getHtmlFilePath", () => {
+  let distRoot: string;
+
+  beforeAll(() => {
+    distRoot = mkdtempSync(path.join(tmpdir(), "llms-site-paths-"));
+    for (const [format, files] of Object.entries(emittedFiles)) {
+      for (const file of Object.values(files)) {
+        const filePath = path.join(distRoot, format, file);
+        mkdirSync(path.dirname(filePath), { recursive: true });
+        writeFileSync(filePath, "<html></html>");
+      }
+    }
+  });
+
+  afterAll(() => {
+    rmSync(distRoot, { recursive: true, force: true });
+  });
+
+  describe.each(buildFormats)("build.format %s", (format) => {
+    describe.each(trailingSlashes)("trailingSlash %s", (trailingSlash) => {
+      for (const [route, file] of Object.entries(emittedFiles[format])) {
+        for (const pathname of getReportedPathnames(route, trailingSlash)) {
+          it(`finds ${file} for ${JSON.stringify(pathname)} from build.format`, () => {
+            const distDirectory = path.join(distRoot, format);
+            expect(getHtmlFilePath(pathname, distDirectory, format)).toBe(path.join(distDirectory, file));
+          });
+
+          it(`finds ${file} for ${JSON.stringify(pathname)} from the emitted assets`, () => {
+            const distDirectory = path.join(distRoot, format);
+            const assets = new Map([["page", Object.values(emittedFiles[format]).map((emittedFile) =>
+              pathToFileURL(path.join(distDirectory, emittedFile)))]]);
+            const htmlFiles = createHtmlFileIndex(distDirectory, assets);
+
+            // The emitted assets win over build.format, so a wrong format still finds the file
+            const otherFormat = format === "file" ? "directory" : "file";
+            expect(getHtmlFilePath(pathname, distDirectory, otherFormat, htmlFiles)).toBe(path.join(distDirectory, file));
+          });
+        }
+      }
+    });
+  });
+
+  it("accepts pathnames that already name the HTML file", () => {
+    expect(getHtmlFilePath("guides/intro.html", "/dist", "file")).toBe(path.join("/dist", "guides/intro.html"));
+    expect(getHtmlFilePath("guides/intro/index.html", "/dist", "directory")).toBe(path.join("/dist", "guides/intro/index.html"));
+  });
+});
+
+describe("getPageUrlFromPathname", () => {
+  const sites = [undefined, "https://example.com"];
+  const bases = ["/", "/docs"];
+
+  describe.each(buildFormats)("build.format %s", (format) => {
+    describe.each(trailingSlashes)("trailingSlash %s", (trailingSlash) => {
+      for (const site of sites) {
+        for (const base of bases) {
+          const settings = { site, base, trailingSlash };
+          const baseUrl = `${site ?? ""}${base === "/" ? "/" : `${base}/`}`;
+
+          for (const route of Object.keys(emittedFiles[format])) {
+            for (const pathname of getReportedPathnames(route, trailingSlash)) {
+              // Pages are served the same way whatever the build format; only trailingSlash changes the URL
+              const expectedPath = route === "" || trailingSlash === "never" ? route
+                : trailingSlash === "always" ? `${route}/` : pathname;
+
+              it(`gives ${baseUrl}${expectedPath} for ${JSON.stringify(pathname)}`, () => {
+                expect(getPageUrlFromPathname(pathname, settings)).toBe(`${baseUrl}${expectedPath}`);
+              });
+            }
+          }
+        }
+      }
+    });
+  });
+
+  it("resolves relative links the way a browser would on the page", () => {
+    const withSlash = getPageUrlFromPathname("guides/intro", { base: "/docs", trailingSlash: "always" });
+    const withoutSlash = getPageUrlFromPathname("guides/intro/", { base: "/docs", trailingSlash: "never" });
+
+    expect(new URL("setup/", new URL(withSlash, "https://example.com")).pathname).toBe("/docs/guides/intro/setup/");
+    expect(new URL("setup/", new URL(withoutSlash, "https://example.com")).pathname).toBe("/docs/guides/setup/");
+  });
+});